@@ -1,6 +1,14 @@
 import type { StartedTestContainer as ContainerSession, WaitStrategy } from "testcontainers";
-import { ContainerLifecycleError, createNotStartedError } from "~/errors";
+import {
+  ContainerAlreadyStartedError,
+  ContainerLifecycleError,
+  MissingConfigError,
+  createNotStartedError,
+} from "~/errors";
 import type { BaseRecord, ContainerLifecycle, ContainerService, ServiceConfig } from "~/types";
+import { type ContainerController, type StandaloneContainer, useContainer } from "./container";
+import type { LifecycleHook } from "./hooks";
+import { runResetCommand } from "./reset";
 
 // ============================================
 // Class Hierarchy Summary
@@ -15,6 +23,8 @@ import type { BaseRecord, ContainerLifecycle, ContainerService, ServiceConfig }
     ├── Implements: ContainerService<T>
     ├── Adds: getConnectionInfo()
     ├── Adds: Optional compose hooks (getWaitStrategy, etc.)
+    ├── Adds: Default standalone start/stop from serviceConfig.container
+    ├── Adds: reset() from getResetCommands() and onReset() hooks
     └── Used for: Custom services (PostgresService, RedisService)
 */
 
@@ -66,7 +76,7 @@ export abstract class BaseContainerManager implements ContainerLifecycle {
 
 /**
  * Base class for custom services (PostgresService, RedisService, etc.)
- * Used primarily with docker-compose
+ * Works inside docker-compose, and standalone when given a `{ container }` service config
  */
 export abstract class BaseContainerService<
     T extends BaseRecord,
@@ -75,6 +85,9 @@ export abstract class BaseContainerService<
   extends BaseContainerManager
   implements ContainerService<T>
 {
+  private controller: ContainerController | null = null;
+  private resetHooks: LifecycleHook<[ContainerSession]>[] = [];
+
   constructor(
     name: string,
     protected readonly serviceConfig?: Config,
@@ -88,6 +101,121 @@ export abstract class BaseContainerService<
   getWaitStrategy?(): WaitStrategy;
   getEnvironmentVariables?(): Record<string, string>;
 
+  /**
+   * Commands `reset()` runs in the container, in order (e.g. `redis-cli FLUSHALL`)
+   */
+  protected getResetCommands(): string[][] {
+    return [];
+  }
+
+  /**
+   * Run on `reset()` after the reset commands, e.g. to re-seed fixtures
+   */
+  onReset(hook: LifecycleHook<[ContainerSession]>): this {
+    this.resetHooks.push(hook);
+    return this;
+  }
+
+  /**
+   * Return the service to a clean state between tests, standalone or inside compose
+   *
+   * Runs `getResetCommands()` and then the `onReset()` hooks; a service with neither does nothing.
+   */
+  async reset(): Promise<void> {
+    this.validateStarted();
+    const container = this.getContainer();
+
+    for (const command of this.getResetCommands()) {
+      await runResetCommand(container, command, this.name);
+    }
+
+    for (const hook of this.resetHooks) {
+      await hook(container);
+    }
+  }
+
+  /**
+   * Adjust the standalone container before it starts (command, entrypoint, etc.)
+   */
+  protected configure(container: StandaloneContainer): StandaloneContainer {
+    return container;
+  }
+
+  /**
+   * Finish standalone startup once the container is running (e.g. configure advertised addresses)
+   */
+  protected async afterStart(_controller: ContainerController): Promise<void> {}
+
+  /**
+   * Start a standalone container from `serviceConfig.container`
+   *
+   * The service's wait strategy and environment variables apply unless the config sets its own
+   */
+  async start(): Promise<void> {
+    if (this.session) {
+      throw new ContainerAlreadyStartedError({
+        message: `Service '${this.name}' has already been started`,
+        cause: {
+          containerName: this.name,
+          containerId: this.session.getId(),
+          currentState: "running",
+          expectedState: "running",
+        },
+      });
+    }
+
+    const config =
+      this.serviceConfig && "container" in this.serviceConfig
+        ? this.serviceConfig.container
+        : undefined;
+
+    if (!config?.image) {
+      throw new MissingConfigError({
+        message: `Service '${this.name}' needs a container image to start standalone`,
+        cause: {
+          containerName: this.name,
+          requiredKey: "container.image",
+          context: `serviceConfig of '${this.name}'`,
+          configKey: "container.image",
+          providedValue: this.serviceConfig,
+        },
+      });
+    }
+
+    const container = useContainer(config.image).withConfig({
+      ...config,
+      env: { ...this.getEnvironmentVariables?.(), ...config.env },
+      waitStrategy: config.waitStrategy ?? this.getWaitStrategy?.(),
+    });
+
+    const controller = await this.configure(container).start();
+    this.controller = controller;
+
+    try {
+      await this.afterStart(controller);
+      await this.initializeFromContainer(controller.instance);
+    } catch (error) {
+      this.controller = null;
+      await controller.cleanup().catch(() => {});
+      throw error;
+    }
+  }
+
+  /**
+   * Stop the standalone container; compose-managed containers are removed by the environment
+   */
+  async stop(): Promise<void> {
+    const controller = this.controller;
+
+    this.controller = null;
+    this.session = null;
+    this.started = false;
+
+    if (controller) {
+      await controller.cleanup();
+    }
+  }
+
   /**
    * Initialize from a compose-started container
    */
@@ -0,0 +1,176 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  CommandNotFoundError,
+  ContainerLifecycleError,
+  ContainerTimeoutError,
+  DockerDaemonError,
+  DockerNotAvailableError,
+  DockerPermissionError,
+  DockerResourceError,
+  ImageAuthError,
+  ImageBuildError,
+  ImageNotFoundError,
+  ImagePullError,
+  PortBindingError,
+} from "~/errors";
+import { type FailureContext, classifyError } from "./classify";
+
+const context: FailureContext = { containerName: "redis", image: "redis:7", operation: "start" };
+
+// A dockerode-style failure: a message, plus the status code or socket details it carries
+function dockerError(message: string, details: Record<string, unknown> = {}): Error {
+  return Object.assign(new Error(message), details);
+}
+
+function field<T>(error: Error | null, key: string): T {
+  return (error as unknown as Record<string, T>)[key];
+}
+
+describe("classifyError", () => {
+  it("maps exit code 127 and missing executables to CommandNotFoundError", () => {
+    const byExitCode = classifyError(new Error(""), {
+      ...context,
+      command: ["psql", "-c", "select 1"],
+      exitCode: 127,
+    });
+    assert.ok(byExitCode instanceof CommandNotFoundError);
+    assert.equal(field(byExitCode, "command"), "psql");
+
+    const byMessage = classifyError(
+      dockerError('OCI runtime exec failed: exec: "redis-cli": executable file not found in $PATH'),
+      context,
+    );
+    assert.ok(byMessage instanceof CommandNotFoundError);
+    assert.equal(field(byMessage, "command"), "redis-cli");
+
+    const byShell = classifyError(dockerError("sh: 1: pg_isready: command not found"), context);
+    assert.equal(field(byShell, "command"), "pg_isready");
+  });
+
+  it("maps an unreachable socket to DockerNotAvailableError", () => {
+    const refused = dockerError("connect ECONNREFUSED /var/run/docker.sock", {
+      code: "ECONNREFUSED",
+      address: "/var/run/docker.sock",
+    });
+    assert.ok(classifyError(refused, context) instanceof DockerNotAvailableError);
+
+    const noRuntime = dockerError("Could not find a working container runtime strategy");
+    assert.ok(classifyError(noRuntime, context) instanceof DockerNotAvailableError);
+  });
+
+  it("maps a denied socket to DockerPermissionError", () => {
+    const denied = dockerError("connect EACCES /var/run/docker.sock", {
+      code: "EACCES",
+      address: "/var/run/docker.sock",
+    });
+    assert.ok(classifyError(denied, context) instanceof DockerPermissionError);
+  });
+
+  it("maps exhausted disk and memory to DockerResourceError", () => {
+    const disk = classifyError(dockerError("write /var/lib: no space left on device"), context);
+    assert.ok(disk instanceof DockerResourceError);
+    assert.equal(field(disk, "resourceType"), "disk");
+
+    const memory = classifyError(dockerError("fork: cannot allocate memory"), context);
+    assert.equal(field(memory, "resourceType"), "memory");
+  });
+
+  it("maps a taken port to PortBindingError with the host port", () => {
+    const error = classifyError(
+      dockerError(
+        "driver failed programming external connectivity: Bind for 0.0.0.0:6379 failed: port is already allocated",
+        { statusCode: 500 },
+      ),
+      context,
+    );
+
+    assert.ok(error instanceof PortBindingError);
+    assert.equal(field(error, "hostPort"), 6379);
+  });
+
+  it("maps image failures by status code and registry message", () => {
+    const missing = classifyError(
+      dockerError("(HTTP code 404) no such image - manifest unknown", { statusCode: 404 }),
+      context,
+    );
+    assert.ok(missing instanceof ImageNotFoundError);
+    assert.equal(field(missing, "imageName"), "redis");
+    assert.equal(field(missing, "tag"), "7");
+
+    const auth = classifyError(dockerError("unauthorized", { statusCode: 401 }), context);
+    assert.ok(auth instanceof ImageAuthError);
+    assert.equal(field(auth, "registry"), "docker.io");
+
+    const rateLimited = classifyError(
+      dockerError("toomanyrequests: You have reached your pull rate limit", { statusCode: 429 }),
+      context,
+    );
+    assert.ok(rateLimited instanceof ImagePullError);
+    assert.equal(field(rateLimited, "statusCode"), 429);
+
+    const registryDown = classifyError(
+      dockerError("Get https://registry-1.docker.io/v2/: i/o timeout", { statusCode: 500 }),
+      context,
+    );
+    assert.ok(registryDown instanceof ImagePullError);
+  });
+
+  it("maps a wait strategy giving up to ContainerTimeoutError with recent logs", () => {
+    const error = classifyError(dockerError("Port 6379 not bound after 60000ms"), {
+      ...context,
+      waitStrategy: "HostPortWaitStrategy",
+      recentLogs: ["Ready to accept connections"],
+    });
+
+    assert.ok(error instanceof ContainerTimeoutError);
+    assert.deepEqual(field(error, "recentLogs"), ["Ready to accept connections"]);
+  });
+
+  it("maps other server errors to DockerDaemonError", () => {
+    const error = classifyError(
+      dockerError("(HTTP code 500) server error", { statusCode: 500 }),
+      context,
+    );
+
+    assert.ok(error instanceof DockerDaemonError);
+    assert.ok(!(error instanceof DockerNotAvailableError));
+  });
+
+  it("maps a missing or malformed Dockerfile to ImageBuildError during builds", () => {
+    const build: FailureContext = {
+      containerName: "Dockerfile.test",
+      operation: "build",
+      build: { dockerfile: "Dockerfile.test", context: "./app" },
+    };
+
+    const missing = classifyError(
+      dockerError("Cannot locate specified Dockerfile: Dockerfile.test"),
+      build,
+    );
+    assert.ok(missing instanceof ImageBuildError);
+    assert.match((missing as Error).message, /not found in build context '\.\/app'/);
+
+    const invalid = classifyError(
+      dockerError("dockerfile parse error line 3: unknown instruction: FORM"),
+      build,
+    );
+    assert.ok(invalid instanceof ImageBuildError);
+    assert.match((invalid as Error).message, /Invalid Dockerfile syntax/);
+    assert.equal(field(invalid, "dockerfile"), "Dockerfile.test");
+  });
+
+  it("returns errors from this library as they are", () => {
+    const original = new ContainerLifecycleError({
+      message: "already classified",
+      cause: { currentState: "failed", expectedState: "running" },
+    });
+
+    assert.equal(classifyError(original, context), original);
+  });
+
+  it("returns null when nothing more specific is known", () => {
+    assert.equal(classifyError(new Error("something odd"), context), null);
+    assert.equal(classifyError("not an error", context), null);
+  });
+});
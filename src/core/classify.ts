@@ -0,0 +1,265 @@
+import { ImageName } from "testcontainers";
+import {
+  CommandNotFoundError,
+  ContainerError,
+  DockerDaemonError,
+  DockerResourceError,
+  ImageAuthError,
+  ImageBuildError,
+  ImageNotFoundError,
+  ImagePullError,
+  PortBindingError,
+  createDockerNotAvailableError,
+  createDockerPermissionError,
+  createTimeoutError,
+  isError,
+} from "~/errors";
+import { attachRecentLogs } from "./logs";
+
+/**
+ * What was being done when something failed, used to fill in the classified error
+ */
+export interface FailureContext {
+  /**
+   * Container, image, compose file or service the failure belongs to
+   */
+  containerName: string;
+  operation: string;
+  image?: string;
+  containerId?: string;
+  command?: string[];
+  exitCode?: number;
+  waitStrategy?: string;
+  timeoutMs?: number;
+  recentLogs?: string[];
+  /**
+   * Dockerfile being built, for failures during `operation: "build"`
+   */
+  build?: { dockerfile: string; context: string; stage?: string };
+}
+
+interface Failure {
+  message: string;
+  code?: string;
+  statusCode?: number;
+  address?: string;
+  exitCode?: number;
+}
+
+const DEFAULT_SOCKET = "/var/run/docker.sock";
+
+const COMMAND_NOT_FOUND =
+  /exec: "?([^":\s]+)"?: executable file not found|([^\s:]+): command not found|executable file not found in \$PATH/i;
+const DAEMON_UNREACHABLE =
+  /Could not find a working container runtime strategy|Cannot connect to the Docker daemon/i;
+const SOCKET_DENIED = /permission denied while trying to connect to the Docker daemon/i;
+const PORT_IN_USE =
+  /port is already allocated|address already in use|Bind for [^\s]*?:(\d+) failed/i;
+const NO_SPACE = /no space left on device/i;
+const NO_MEMORY = /cannot allocate memory|out of memory/i;
+const AUTH_REQUIRED =
+  /unauthorized|authentication required|no basic auth credentials|denied: requested access/i;
+const IMAGE_MISSING =
+  /no such image|manifest unknown|manifest for \S+ not found|repository does not exist|pull access denied|failed to resolve reference .*: not found/i;
+const PULL_TRANSIENT =
+  /toomanyrequests|TLS handshake timeout|error pulling image|failed to (?:pull|copy)/i;
+const PULL_FAILED = /pull|registry|manifest|i\/o timeout/i;
+const DOCKERFILE_MISSING =
+  /Cannot locate specified Dockerfile|failed to read dockerfile|unable to prepare context/i;
+const DOCKERFILE_INVALID = /dockerfile parse error|unknown instruction|failed to parse dockerfile/i;
+const WAIT_TIMEOUT = /not (?:bound|received|healthy|accessible|successful) after (\d+)ms/i;
+
+function describe(error: Error, context: FailureContext): Failure {
+  const raw = error as Error & {
+    code?: string;
+    statusCode?: number;
+    address?: string;
+    exitCode?: number;
+    json?: { message?: string };
+  };
+
+  return {
+    message: [raw.message, raw.json?.message].filter(Boolean).join(": "),
+    code: raw.code,
+    statusCode: raw.statusCode,
+    address: raw.address,
+    exitCode: context.exitCode ?? raw.exitCode,
+  };
+}
+
+function describeImage(image: string) {
+  const imageName = ImageName.fromString(image);
+  return { imageName: imageName.image, tag: imageName.tag, registry: imageName.registry };
+}
+
+/**
+ * Map a raw Docker, testcontainers or compose failure onto the most precise error class
+ *
+ * Looks at socket error codes, Docker API status codes, daemon and registry messages,
+ * wait-strategy timeouts and exit code 127. Errors from this library are returned as
+ * they are; `null` means nothing more specific is known and the caller should wrap it.
+ */
+export function classifyError(error: unknown, context: FailureContext): Error | null {
+  if (!(error instanceof Error)) return null;
+  if (isError(error, ContainerError)) return error;
+
+  const failure = describe(error, context);
+  const { message, statusCode } = failure;
+
+  // The builder rejects a missing or malformed Dockerfile before running any step
+  const { build } = context;
+  if (build && (DOCKERFILE_MISSING.test(message) || DOCKERFILE_INVALID.test(message))) {
+    return new ImageBuildError({
+      message: DOCKERFILE_INVALID.test(message)
+        ? `Invalid Dockerfile syntax in '${build.dockerfile}'`
+        : `Dockerfile '${build.dockerfile}' not found in build context '${build.context}'`,
+      cause: {
+        imageName: context.image ?? build.dockerfile,
+        operation: context.operation,
+        dockerfile: build.dockerfile,
+        context: build.context,
+        buildStage: build.stage,
+        reason: message,
+      },
+      parent: error,
+    });
+  }
+
+  const commandMatch = message.match(COMMAND_NOT_FOUND);
+  if (failure.exitCode === 127 || commandMatch) {
+    const command = commandMatch?.[1] ?? commandMatch?.[2] ?? context.command?.[0] ?? "unknown";
+    return new CommandNotFoundError({
+      message: `Command '${command}' not found in '${context.containerName}'`,
+      cause: {
+        containerName: context.containerName,
+        image: context.image,
+        operation: context.operation,
+        command,
+        exitCode: failure.exitCode,
+        suggestion: `Install '${command}' in the image or use its absolute path`,
+      },
+      parent: error,
+    });
+  }
+
+  if (
+    ((failure.code === "ECONNREFUSED" || failure.code === "ENOENT") && failure.address) ||
+    DAEMON_UNREACHABLE.test(message)
+  ) {
+    return createDockerNotAvailableError(failure.address, error);
+  }
+
+  if (failure.code === "EACCES" || failure.code === "EPERM" || SOCKET_DENIED.test(message)) {
+    return createDockerPermissionError(failure.address ?? DEFAULT_SOCKET, message, error);
+  }
+
+  if (NO_SPACE.test(message) || NO_MEMORY.test(message)) {
+    const resourceType = NO_SPACE.test(message) ? "disk" : "memory";
+    return new DockerResourceError({
+      message: `Docker ran out of ${resourceType} while running ${context.operation} for '${context.containerName}'`,
+      cause: {
+        containerName: context.containerName,
+        image: context.image,
+        operation: context.operation,
+        dockerHost: process.env.DOCKER_HOST,
+        reason: message,
+        resourceType,
+      },
+      parent: error,
+    });
+  }
+
+  const portMatch = message.match(PORT_IN_USE);
+  if (portMatch) {
+    // The daemon only reports the host side of the binding
+    const hostPort = portMatch[1] ? Number(portMatch[1]) : undefined;
+    return new PortBindingError({
+      message: `${hostPort ? `Port ${hostPort}` : "A port"} is already in use on the host for '${context.containerName}'`,
+      cause: {
+        containerName: context.containerName,
+        image: context.image,
+        operation: context.operation,
+        port: hostPort ?? 0,
+        hostPort,
+        reason: message,
+      },
+      parent: error,
+    });
+  }
+
+  const image = context.image ?? context.containerName;
+
+  // Registries answer "pull access denied" for missing and private images alike
+  if (IMAGE_MISSING.test(message)) {
+    return new ImageNotFoundError({
+      message: `Image '${image}' not found locally or in its registry`,
+      cause: {
+        ...describeImage(image),
+        searchedIn: ["local cache", "registry"],
+        suggestion: "Check the image name and tag, or run docker login if the image is private",
+        operation: "pull",
+      },
+      parent: error,
+    });
+  }
+
+  if (statusCode === 401 || statusCode === 403 || AUTH_REQUIRED.test(message)) {
+    const details = describeImage(image);
+    const registry = details.registry ?? "docker.io";
+    return new ImageAuthError({
+      message: `Registry '${registry}' requires authentication to pull '${image}'`,
+      cause: {
+        ...details,
+        registry,
+        suggestion: `Log in first: docker login ${registry}`,
+        operation: "pull",
+      },
+      parent: error,
+    });
+  }
+
+  if (
+    statusCode === 429 ||
+    PULL_TRANSIENT.test(message) ||
+    (statusCode !== undefined && statusCode >= 500 && PULL_FAILED.test(message))
+  ) {
+    return new ImagePullError({
+      message: `Failed to pull image '${image}'${statusCode ? ` (HTTP ${statusCode})` : ""}`,
+      cause: {
+        ...describeImage(image),
+        reason: message,
+        statusCode,
+        operation: "pull",
+      },
+      parent: error,
+    });
+  }
+
+  const timeoutMatch = message.match(WAIT_TIMEOUT);
+  if (timeoutMatch) {
+    const timeoutError = createTimeoutError(
+      context.containerName,
+      context.timeoutMs ?? Number(timeoutMatch[1]),
+      context.waitStrategy,
+      error,
+    );
+    attachRecentLogs(timeoutError, context.recentLogs ?? []);
+    return timeoutError;
+  }
+
+  if (statusCode !== undefined && statusCode >= 500) {
+    return new DockerDaemonError({
+      message: `Docker daemon failed during ${context.operation} of '${context.containerName}' (HTTP ${statusCode})`,
+      cause: {
+        containerName: context.containerName,
+        image: context.image,
+        operation: context.operation,
+        dockerHost: process.env.DOCKER_HOST,
+        reason: message,
+      },
+      parent: error,
+    });
+  }
+
+  return null;
+}
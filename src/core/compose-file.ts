@@ -0,0 +1,92 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { YAMLParseError, parse } from "yaml";
+import { ComposeFileNotFoundError, InvalidComposeFileError } from "~/errors";
+
+export interface ComposeServiceSpec {
+  image?: string;
+  container_name?: string;
+  networks?: string[] | Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface ComposeFileSpec {
+  name?: string;
+  services: Record<string, ComposeServiceSpec>;
+  networks?: Record<string, { name?: string; external?: boolean } | null>;
+}
+
+/**
+ * Read and parse a compose file
+ */
+export function readComposeFile(composePath: string, composeFile: string): ComposeFileSpec {
+  const filePath = path.resolve(composePath, composeFile);
+
+  let content: string;
+  try {
+    content = readFileSync(filePath, "utf-8");
+  } catch (error) {
+    throw new ComposeFileNotFoundError({
+      message: `Compose file not found: '${filePath}'`,
+      cause: {
+        composePath,
+        composeFile,
+        filePath,
+        searchedPaths: [filePath],
+      },
+      parent: error instanceof Error ? error : undefined,
+    });
+  }
+
+  let spec: Partial<ComposeFileSpec> | null;
+  try {
+    spec = parse(content);
+  } catch (error) {
+    throw new InvalidComposeFileError({
+      message: `Invalid YAML in compose file '${composeFile}'`,
+      cause: {
+        composePath,
+        composeFile,
+        parseError: error instanceof Error ? error.message : "Unknown error",
+        lineNumber: error instanceof YAMLParseError ? error.linePos?.[0].line : undefined,
+      },
+      parent: error instanceof Error ? error : undefined,
+    });
+  }
+
+  if (!spec || typeof spec.services !== "object" || spec.services === null) {
+    throw new InvalidComposeFileError({
+      message: `Compose file '${composeFile}' does not define any services`,
+      cause: {
+        composePath,
+        composeFile,
+        parseError: "Missing top-level 'services' key",
+      },
+    });
+  }
+
+  return spec as ComposeFileSpec;
+}
+
+/**
+ * Images `docker compose down --rmi` would remove: `local` only those compose built and
+ * named itself, `all` every service's image
+ */
+export function getServiceImages(
+  spec: ComposeFileSpec,
+  projectName: string,
+  scope: "all" | "local",
+): string[] {
+  const images = Object.entries(spec.services).flatMap(([serviceName, service]) => {
+    if (service.image) return scope === "all" ? [service.image] : [];
+    return [`${projectName}-${serviceName}`];
+  });
+  return Array.from(new Set(images));
+}
+
+/**
+ * Resolve the container name testcontainers assigns to the first replica of a service
+ */
+export function getServiceContainerName(spec: ComposeFileSpec, serviceName: string): string {
+  return spec.services[serviceName]?.container_name ?? `${serviceName}-1`;
+}
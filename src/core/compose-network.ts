@@ -0,0 +1,112 @@
+import {
+  type StartedDockerComposeEnvironment,
+  StartedNetwork,
+  type StartedTestContainer,
+  getContainerRuntimeClient,
+} from "testcontainers";
+import { NetworkError } from "~/errors";
+import { type ComposeFileSpec, getServiceContainerName } from "./compose-file";
+
+const LABEL_COMPOSE_PROJECT = "com.docker.compose.project";
+const LABEL_COMPOSE_SERVICE = "com.docker.compose.service";
+const LABEL_COMPOSE_NETWORK = "com.docker.compose.network";
+
+export interface ComposeServiceEndpoint {
+  containerName: string;
+  ipAddress: string;
+}
+
+export interface ComposeNetwork {
+  /**
+   * Key of the network in the compose file (e.g. "default", "backend")
+   */
+  key: string;
+  /**
+   * Actual Docker network name
+   */
+  name: string;
+  id: string;
+  /**
+   * Pass to `useContainer().withNetwork()` to join this network;
+   * compose services are reachable by their service name as alias
+   */
+  network: StartedNetwork;
+  services: Record<string, ComposeServiceEndpoint>;
+}
+
+export interface ResolvedComposeNetworks {
+  projectName?: string;
+  networks: Record<string, ComposeNetwork>;
+}
+
+/**
+ * Inspect the started compose containers to find the networks the environment actually created
+ */
+export async function resolveComposeNetworks(
+  environment: StartedDockerComposeEnvironment,
+  spec: ComposeFileSpec,
+): Promise<ResolvedComposeNetworks> {
+  const containers: Array<{ serviceName: string; container: StartedTestContainer }> = [];
+
+  for (const serviceName of Object.keys(spec.services)) {
+    try {
+      const container = environment.getContainer(getServiceContainerName(spec, serviceName));
+      containers.push({ serviceName, container });
+    } catch {
+      // Service not running, e.g. excluded by profiles
+    }
+  }
+
+  const networks: Record<string, ComposeNetwork> = {};
+  let projectName: string | undefined;
+
+  if (containers.length === 0) {
+    return { projectName, networks };
+  }
+
+  const client = await getContainerRuntimeClient();
+
+  for (const { serviceName, container } of containers) {
+    const labels = container.getLabels();
+    projectName ??= labels[LABEL_COMPOSE_PROJECT];
+    const service = labels[LABEL_COMPOSE_SERVICE] ?? serviceName;
+
+    for (const networkName of container.getNetworkNames()) {
+      let resolved = Object.values(networks).find((network) => network.name === networkName);
+
+      if (!resolved) {
+        try {
+          const dockerNetwork = client.network.getById(container.getNetworkId(networkName));
+          const info = await dockerNetwork.inspect();
+
+          resolved = {
+            // External networks carry no compose labels
+            key: info.Labels?.[LABEL_COMPOSE_NETWORK] ?? networkName,
+            name: networkName,
+            id: dockerNetwork.id,
+            network: new StartedNetwork(client, networkName, dockerNetwork),
+            services: {},
+          };
+        } catch (error) {
+          throw new NetworkError({
+            message: `Failed to inspect compose network '${networkName}'`,
+            cause: {
+              networkName,
+              containerName: container.getName(),
+              operation: "inspect",
+            },
+            parent: error instanceof Error ? error : undefined,
+          });
+        }
+        networks[resolved.key] = resolved;
+      }
+
+      resolved.services[service] = {
+        containerName: container.getName(),
+        ipAddress: container.getIpAddress(networkName),
+      };
+    }
+  }
+
+  return { projectName, networks };
+}
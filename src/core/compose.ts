@@ -4,16 +4,103 @@ import {
   type WaitStrategy,
   PullPolicy,
   type StartedTestContainer,
+  RandomUuid,
+  Wait,
+  getContainerRuntimeClient,
 } from "testcontainers";
-import type { ContainerService, ComposeConfig, BaseRecord } from "../types";
-import { ComposeError, ContainerLifecycleError, isError, ServiceNotFoundError } from "~/errors";
+import { EventEmitter } from "node:events";
+import { rm } from "node:fs/promises";
+import type {
+  ContainerService,
+  ComposeConfig,
+  ComposeDownOptions,
+  BaseRecord,
+  PullPolicyName,
+  RetryOptions,
+  CheckDockerOptions,
+} from "../types";
+import {
+  type CleanupFailure,
+  ComposeError,
+  ComposeFileNotFoundError,
+  ConfigurationError,
+  ContainerLifecycleError,
+  ContainerTimeoutError,
+  createCleanupError,
+  createTimeoutError,
+  DockerDaemonError,
+  ExecutionError,
+  ImageError,
+  ImageNotFoundError,
+  InvalidComposeFileError,
+  isError,
+  NetworkError,
+  ServiceNotFoundError,
+} from "~/errors";
+import { classifyError } from "./classify";
+import {
+  type ComposeFileSpec,
+  getServiceContainerName,
+  getServiceImages,
+  readComposeFile,
+} from "./compose-file";
+import { type ComposeNetwork, resolveComposeNetworks } from "./compose-network";
+import {
+  type LifecycleEvents,
+  type LifecycleHook,
+  createLifecycleHooks,
+  runLifecycleHooks,
+} from "./hooks";
+import { getLogger } from "./logger";
+import { type ContainerLogs, LogRingBuffer, attachRecentLogs, createContainerLogs } from "./logs";
+import { ensureDocker } from "./preflight";
+import { getComposePullOption } from "./pull-policy";
+import {
+  connectToPortForwarder,
+  exposeHostPorts,
+  getForwardedServices,
+  writeHostPortsOverride,
+} from "./host-ports";
+import { registerResource } from "./registry";
+import { resetEach } from "./reset";
+import { retryStart } from "./retry";
+import { RECENT_LOG_LINES, TrackedWaitStrategy } from "./wait";
+
+const startLog = getLogger("start");
+const stopLog = getLogger("stop");
 
 export interface ComposeController<T> {
   environment: StartedDockerComposeEnvironment;
   services: T;
+  /**
+   * Docker name of the project's default network (or its first network)
+   */
   network: string;
+  /**
+   * Networks the environment created, keyed by their compose file key
+   */
+  networks: Record<string, ComposeNetwork>;
+  /**
+   * Emits `beforeStop` and `stopped`
+   */
+  events: EventEmitter<LifecycleEvents>;
   getContainerInstance: (serviceName: string) => StartedTestContainer;
-  cleanup: () => Promise<void>;
+  /**
+   * Log API for a service's container
+   */
+  logs: (serviceName: string) => ContainerLogs;
+  /**
+   * Forward more host ports to the services; needs `withExposedHostPorts()` before `start()`
+   */
+  exposeHostPorts: (...ports: number[]) => Promise<void>;
+  /**
+   * Reset every registered service that implements `reset()`, in parallel
+   */
+  resetAll: () => Promise<void>;
+  /**
+   * Tear down the environment; options override those set with `withDownOptions()`
+   */
+  cleanup: (opts?: ComposeDownOptions) => Promise<void>;
 }
 
 interface ServiceDefinition<T extends BaseRecord> {
@@ -24,6 +111,7 @@ interface ServiceDefinition<T extends BaseRecord> {
 export class ComposeEnvironment<T extends Record<string, any>> {
   private services = new Map<keyof T, ServiceDefinition<T[keyof T]>>();
   private config: ComposeConfig = {};
+  private hooks = createLifecycleHooks<StartedDockerComposeEnvironment, ComposeController<T>>();
 
   constructor(
     private readonly composePath: string,
@@ -41,6 +129,22 @@ export class ComposeEnvironment<T extends Record<string, any>> {
     return this;
   }
 
+  /**
+   * Apply a whole configuration object, merging env and per-service waits with what is already set
+   */
+  withConfig(config: ComposeConfig): this {
+    const previous = this.config;
+    this.config = { ...previous, ...config };
+
+    if (config.env) {
+      this.config.env = { ...previous.env, ...config.env };
+    }
+    if (config.serviceWaits) {
+      this.config.serviceWaits = { ...previous.serviceWaits, ...config.serviceWaits };
+    }
+    return this;
+  }
+
   /**
    * Add environment variables
    */
@@ -93,24 +197,200 @@ export class ComposeEnvironment<T extends Record<string, any>> {
    * Set wait strategy for a service
    */
   withWaitStrategy(serviceName: string, strategy: WaitStrategy): this {
+    this.config.serviceWaits = {
+      ...this.config.serviceWaits,
+      [serviceName]: { ...this.config.serviceWaits?.[serviceName], waitStrategy: strategy },
+    };
+    return this;
+  }
+
+  /**
+   * Set startup timeout (ms) for a service
+   */
+  withStartupTimeout(serviceName: string, timeoutMs: number): this {
+    this.config.serviceWaits = {
+      ...this.config.serviceWaits,
+      [serviceName]: { ...this.config.serviceWaits?.[serviceName], startupTimeout: timeoutMs },
+    };
+    return this;
+  }
+
+  /**
+   * Set wait strategy for services without their own
+   */
+  withDefaultWaitStrategy(strategy: WaitStrategy): this {
     this.config.waitStrategy = strategy;
     return this;
   }
 
   /**
-   * Always pull images
+   * Set teardown options used by cleanup()
+   */
+  withDownOptions(options: ComposeDownOptions): this {
+    this.config.down = { ...this.config.down, ...options };
+    return this;
+  }
+
+  /**
+   * Let services reach these host ports as `host.testcontainers.internal:<port>`,
+   * e.g. a webhook receiver in the test process; more can be added after start
+   */
+  withExposedHostPorts(...ports: number[]): this {
+    this.config.exposedHostPorts = [
+      ...new Set([...(this.config.exposedHostPorts ?? []), ...ports]),
+    ];
+    return this;
+  }
+
+  /**
+   * Check Docker is usable before the first start in this process, failing fast if not
    */
-  withPullPolicy(policy: "alwaysPull" | "never"): this {
+  withPreflight(options: CheckDockerOptions = {}): this {
+    this.config.preflight = options;
+    return this;
+  }
+
+  /**
+   * Retry transient failures of `up` (image pulls, daemon hiccups, port races)
+   */
+  withRetry(options: RetryOptions = {}): this {
+    this.config.retry = options;
+    return this;
+  }
+
+  /**
+   * Run before the environment is brought up
+   */
+  onBeforeStart(hook: LifecycleHook<[]>): this {
+    this.hooks.onBeforeStart.push(hook);
+    return this;
+  }
+
+  /**
+   * Run once every service is up and its wait strategy passed
+   */
+  onStarted(hook: LifecycleHook<[StartedDockerComposeEnvironment]>): this {
+    this.hooks.onStarted.push(hook);
+    return this;
+  }
+
+  /**
+   * Run once services are initialized and connection info is available, e.g. to seed data
+   */
+  onReady(hook: LifecycleHook<[ComposeController<T>]>): this {
+    this.hooks.onReady.push(hook);
+    return this;
+  }
+
+  /**
+   * Run at the start of cleanup while services are still running, e.g. to dump state
+   */
+  onBeforeStop(hook: LifecycleHook<[ComposeController<T>]>): this {
+    this.hooks.onBeforeStop.push(hook);
+    return this;
+  }
+
+  /**
+   * Run after the environment has been torn down
+   */
+  onStopped(hook: LifecycleHook<[]>): this {
+    this.hooks.onStopped.push(hook);
+    return this;
+  }
+
+  /**
+   * Set pull policy for all services
+   */
+  withPullPolicy(policy: PullPolicyName): this {
     this.config.pullPolicy = policy;
     return this;
   }
 
+  /**
+   * Run `docker compose down` for the project with the full set of teardown flags
+   */
+  private async down(
+    projectName: string,
+    spec: ComposeFileSpec,
+    options: ComposeDownOptions,
+  ): Promise<void> {
+    const composeOptions: string[] = [];
+    if (this.config.envFile) {
+      composeOptions.push("--env-file", this.config.envFile);
+    }
+    for (const profile of this.config.profiles ?? []) {
+      composeOptions.push("--profile", profile);
+    }
+
+    const startedAt = Date.now();
+    stopLog.info("Stopping compose environment", { composeFile: this.composeFile, projectName });
+
+    const client = await getContainerRuntimeClient();
+    await client.compose.down(
+      {
+        filePath: this.composePath,
+        files: this.composeFile,
+        projectName,
+        composeOptions,
+        environment: {
+          ...this.config.env,
+          // The client only passes the volume and timeout flags; compose reads this one from the environment
+          ...(options.removeOrphans && { COMPOSE_REMOVE_ORPHANS: "true" }),
+        },
+      },
+      // A timeout of 0 leaves compose's own default
+      { removeVolumes: options.removeVolumes ?? false, timeout: options.timeout ?? 0 },
+    );
+
+    // Same images `--rmi` would remove; ones that were never pulled or built are skipped
+    if (options.removeImages) {
+      const { dockerode } = client.container;
+      for (const image of getServiceImages(spec, projectName, options.removeImages)) {
+        try {
+          await dockerode.getImage(image).remove();
+        } catch (error) {
+          if ((error as { statusCode?: number }).statusCode !== 404) throw error;
+        }
+      }
+    }
+
+    stopLog.info("Stopped compose environment", {
+      composeFile: this.composeFile,
+      projectName,
+      durationMs: Date.now() - startedAt,
+    });
+  }
+
   /**
    * Start the compose environment
    */
   async start(): Promise<ComposeController<T>> {
+    // Takes down an environment that came up but whose start failed later on
+    let tearDown: (() => Promise<void>) | null = null;
+    let unregister = (): void => {};
+
     try {
-      let environment = new DockerComposeEnvironment(this.composePath, this.composeFile);
+      if (this.config.preflight) {
+        await ensureDocker(this.config.preflight === true ? undefined : this.config.preflight);
+      }
+
+      await runLifecycleHooks("onBeforeStart", this.hooks.onBeforeStart, [], {
+        containerName: this.composeFile,
+      });
+
+      const spec = readComposeFile(this.composePath, this.composeFile);
+
+      // Host ports need the forwarder running before the override pointing at it is written
+      let hostPortsOverride: string | null = null;
+      if (this.config.exposedHostPorts) {
+        await exposeHostPorts(...this.config.exposedHostPorts);
+        hostPortsOverride = await writeHostPortsOverride(spec);
+      }
+
+      let environment = new DockerComposeEnvironment(
+        this.composePath,
+        hostPortsOverride ? [this.composeFile, hostPortsOverride] : this.composeFile,
+      );
 
       // Apply configuration
       if (this.config.env) {
@@ -121,8 +401,14 @@ export class ComposeEnvironment<T extends Record<string, any>> {
         environment = environment.withEnvironmentFile(this.config.envFile);
       }
 
-      if (this.config.pullPolicy === "alwaysPull") {
-        environment = environment.withPullPolicy(PullPolicy.alwaysPull());
+      if (this.config.pullPolicy) {
+        const pull = getComposePullOption(this.config.pullPolicy);
+        if (pull === "always") {
+          environment = environment.withPullPolicy(PullPolicy.alwaysPull());
+        } else {
+          // `missing` and `never` are resolved by compose against the local image cache
+          environment = environment.withClientOptions({ commandOptions: ["--pull", pull] });
+        }
       }
 
       if (this.config.build) {
@@ -133,18 +419,32 @@ export class ComposeEnvironment<T extends Record<string, any>> {
         environment = environment.withProfiles(...this.config.profiles);
       }
 
-      if (this.config.projectName) {
-        environment = environment.withProjectName(this.config.projectName);
-      }
+      // Always pin the project name so teardown can address the project directly
+      const projectName =
+        this.config.projectName ?? `testcontainers-${new RandomUuid().nextUuid()}`;
+      environment = environment.withProjectName(projectName);
 
       if (this.config.noRecreate) {
         environment = environment.withNoRecreate();
       }
 
+      if (this.config.waitStrategy) {
+        environment = environment.withDefaultWaitStrategy(this.config.waitStrategy);
+      }
+
+      const availableServices = Object.keys(spec.services);
+      // Compose services are addressed by their container name (e.g. "postgres-1")
+      const resolveContainerName = (serviceName: string) =>
+        availableServices.includes(serviceName)
+          ? getServiceContainerName(spec, serviceName)
+          : serviceName;
+      // Wait strategies keyed by compose service, tracked so a timeout can be traced back
+      const waits = new Map<string, TrackedWaitStrategy>();
+
       // Configure each service
       for (const [_, def] of this.services) {
         if (def.service.getWaitStrategy) {
-          environment = environment.withWaitStrategy(def.name, def.service.getWaitStrategy());
+          waits.set(def.name, new TrackedWaitStrategy(def.service.getWaitStrategy(), def.name));
         }
 
         if (def.service.getEnvironmentVariables) {
@@ -152,26 +452,172 @@ export class ComposeEnvironment<T extends Record<string, any>> {
         }
       }
 
+      // Per-service overrides take precedence over service definitions
+      for (const [serviceName, wait] of Object.entries(this.config.serviceWaits ?? {})) {
+        if (!availableServices.includes(serviceName)) {
+          throw new ServiceNotFoundError({
+            message: `Cannot configure wait for service '${serviceName}': not defined in '${this.composeFile}'`,
+            cause: {
+              composePath: this.composePath,
+              composeFile: this.composeFile,
+              serviceName,
+              availableServices,
+            },
+          });
+        }
+
+        // A timeout alone keeps whatever strategy the service would otherwise have used
+        const strategy =
+          wait.waitStrategy ??
+          waits.get(serviceName)?.inner ??
+          this.config.waitStrategy ??
+          Wait.forListeningPorts();
+        const tracked = new TrackedWaitStrategy(strategy, serviceName);
+
+        // Set on the wrapper, so the caller's strategy object is left as it was
+        if (wait.startupTimeout !== undefined) {
+          tracked.withStartupTimeout(wait.startupTimeout);
+        }
+
+        waits.set(serviceName, tracked);
+      }
+
+      for (const [serviceName, wait] of waits) {
+        environment = environment.withWaitStrategy(resolveContainerName(serviceName), wait);
+      }
+
       // Start the environment
-      let startedEnv: StartedDockerComposeEnvironment;
-      try {
-        startedEnv = await environment.up();
-      } catch (error) {
-        throw new ComposeError({
-          message: `Failed to start compose environment from '${this.composeFile}'`,
-          cause: {
-            composePath: this.composePath,
+      const startedEnv = await retryStart(
+        projectName,
+        this.config.retry,
+        async (attempt) => {
+          // Only this attempt's wait failures explain its error
+          for (const wait of waits.values()) {
+            wait.failure = null;
+          }
+
+          const startedAt = Date.now();
+          startLog.info("Starting compose environment", {
             composeFile: this.composeFile,
-          },
-          parent: error instanceof Error ? error : undefined,
-        });
+            projectName,
+            pullPolicy: this.config.pullPolicy,
+            attempt,
+          });
+          try {
+            const started = await environment.up();
+            startLog.info("Started compose environment", {
+              composeFile: this.composeFile,
+              projectName,
+              durationMs: Date.now() - startedAt,
+            });
+            return started;
+          } catch (error) {
+            const reason = error instanceof Error ? error.message : "";
+            startLog.error("Failed to start compose environment", {
+              composeFile: this.composeFile,
+              projectName,
+              attempt,
+              durationMs: Date.now() - startedAt,
+              error: reason,
+            });
+            const missingImage = reason.match(/No such image:\s*(\S+)/i);
+
+            if (this.config.pullPolicy === "never" && missingImage) {
+              throw new ImageNotFoundError({
+                message: `Image '${missingImage[1]}' is not present locally and pull policy is 'never'`,
+                cause: {
+                  imageName: missingImage[1],
+                  composePath: this.composePath,
+                  composeFile: this.composeFile,
+                  searchedIn: ["local cache"],
+                  suggestion: `Pull the image before running offline: docker pull ${missingImage[1]}`,
+                  operation: "pull",
+                },
+                parent: error instanceof Error ? error : undefined,
+              });
+            }
+
+            // A wait strategy that gave up is reported as a timeout of that service
+            for (const [serviceName, wait] of waits) {
+              if (wait.failure && /after \d+ms/.test(wait.failure.message)) {
+                const timeoutError = createTimeoutError(
+                  serviceName,
+                  wait.getStartupTimeout(),
+                  wait.inner.constructor.name,
+                  error instanceof Error ? error : undefined,
+                );
+                attachRecentLogs(timeoutError, wait.recentLogs);
+                throw timeoutError;
+              }
+            }
+
+            const classified = classifyError(error, {
+              containerName: this.composeFile,
+              operation: "start",
+            });
+            if (classified) throw classified;
+
+            throw new ComposeError({
+              message: `Failed to start compose environment from '${this.composeFile}'`,
+              cause: {
+                composePath: this.composePath,
+                composeFile: this.composeFile,
+              },
+              parent: error instanceof Error ? error : undefined,
+            });
+          }
+        },
+        // Tear down whatever the failed attempt left behind, including its volumes
+        () => this.down(projectName, spec, { ...this.config.down, removeVolumes: true }),
+      ).finally(async () => {
+        if (hostPortsOverride) {
+          await rm(hostPortsOverride, { force: true });
+        }
+      });
+
+      // Tracked as soon as it is up, so exiting during the rest of start still takes it down
+      let cleanup = () => this.down(projectName, spec, { ...this.config.down });
+      tearDown = cleanup;
+      unregister = registerResource({
+        kind: "compose",
+        name: projectName,
+        cleanup: () => cleanup(),
+      });
+
+      if (hostPortsOverride) {
+        try {
+          await connectToPortForwarder(
+            getForwardedServices(spec).flatMap((serviceName) => {
+              try {
+                return [startedEnv.getContainer(resolveContainerName(serviceName)).getId()];
+              } catch {
+                // Service not running, e.g. excluded by profiles
+                return [];
+              }
+            }),
+          );
+        } catch (error) {
+          throw new NetworkError({
+            message: `Failed to connect services of '${this.composeFile}' to the host port forwarder`,
+            cause: {
+              composePath: this.composePath,
+              composeFile: this.composeFile,
+              operation: "expose host ports",
+            },
+            parent: error instanceof Error ? error : undefined,
+          });
+        }
       }
 
+      const target = { containerName: this.composeFile };
+
+      await runLifecycleHooks("onStarted", this.hooks.onStarted, [startedEnv], target);
+
       // Initialize services with their container instances
       for (const [serviceName, def] of this.services) {
         try {
           if (def.service.initializeFromContainer) {
-            const instance = startedEnv.getContainer(def.name);
+            const instance = startedEnv.getContainer(resolveContainerName(def.name));
             await def.service.initializeFromContainer(instance);
           }
         } catch (error) {
@@ -193,17 +639,41 @@ export class ComposeEnvironment<T extends Record<string, any>> {
         connectionInfo[name] = def.service.getConnectionInfo() as T[keyof T];
       }
 
-      // Get network name from compose project
-      const network = this.config.projectName ? `${this.config.projectName}_default` : "default";
+      // Resolve the networks compose actually created for this project
+      const { networks } = await resolveComposeNetworks(startedEnv, spec);
+      const network =
+        networks.default?.name ?? Object.values(networks)[0]?.name ?? `${projectName}_default`;
+
+      // Keep recent output of every running service for logs().recent()
+      const logBuffers = new Map<string, LogRingBuffer>();
+      for (const serviceName of availableServices) {
+        try {
+          const instance = startedEnv.getContainer(resolveContainerName(serviceName));
+          const buffer = new LogRingBuffer(RECENT_LOG_LINES);
+          buffer.consume(await instance.logs());
+          logBuffers.set(instance.getName(), buffer);
+        } catch {
+          // Service not running, e.g. excluded by profiles
+        }
+      }
 
-      return {
+      const events = new EventEmitter<LifecycleEvents>();
+
+      const controller: ComposeController<T> = {
         environment: startedEnv,
         services: connectionInfo,
         network,
+        networks,
+        events,
+
+        logs: (serviceName: string) => {
+          const instance = controller.getContainerInstance(serviceName);
+          return createContainerLogs(instance, logBuffers.get(instance.getName()));
+        },
 
         getContainerInstance: (serviceName: string) => {
           try {
-            return startedEnv.getContainer(serviceName);
+            return startedEnv.getContainer(resolveContainerName(serviceName));
           } catch (error) {
             throw new ServiceNotFoundError({
               message: `Service '${serviceName}' not found in compose environment`,
@@ -218,17 +688,56 @@ export class ComposeEnvironment<T extends Record<string, any>> {
           }
         },
 
-        cleanup: async () => {
-          const errors: Error[] = [];
+        exposeHostPorts: async (...ports: number[]) => {
+          if (!this.config.exposedHostPorts) {
+            throw new ConfigurationError({
+              message: `Host ports can only be added to '${this.composeFile}' when it was started with withExposedHostPorts()`,
+              cause: {
+                containerName: this.composeFile,
+                configKey: "exposedHostPorts",
+                providedValue: ports,
+                expectedType: "withExposedHostPorts() before start()",
+              },
+            });
+          }
+          await exposeHostPorts(...ports);
+        },
+
+        resetAll: async () => {
+          const resettable = Array.from(this.services.values()).filter((def) => def.service.reset);
+
+          await resetEach(
+            this.composeFile,
+            resettable.map((def) => ({
+              name: def.name,
+              reset: async () => await def.service.reset?.(),
+            })),
+          );
+        },
+
+        cleanup: async (opts?: ComposeDownOptions) => {
+          unregister();
+          // Attempt every resource, then report all failures together
+          const failures: CleanupFailure[] = [];
 
           try {
-            await startedEnv.down({
-              timeout: this.config.down?.timeout,
-              removeVolumes: this.config.down?.removeVolumes,
+            await runLifecycleHooks("onBeforeStop", this.hooks.onBeforeStop, [controller], target);
+          } catch (error) {
+            failures.push({
+              resource: this.composeFile,
+              operation: "onBeforeStop",
+              error: error as Error,
             });
+          }
+          events.emit("beforeStop");
+
+          try {
+            await this.down(projectName, spec, { ...this.config.down, ...opts });
           } catch (error) {
-            errors.push(
-              new ComposeError({
+            failures.push({
+              resource: this.composeFile,
+              operation: "down",
+              error: new ComposeError({
                 message: "Failed to stop compose environment",
                 cause: {
                   composePath: this.composePath,
@@ -236,7 +745,7 @@ export class ComposeEnvironment<T extends Record<string, any>> {
                 },
                 parent: error instanceof Error ? error : undefined,
               }),
-            );
+            });
           }
 
           // Stop all services
@@ -244,8 +753,10 @@ export class ComposeEnvironment<T extends Record<string, any>> {
             try {
               await def.service.stop();
             } catch (error) {
-              errors.push(
-                new ContainerLifecycleError({
+              failures.push({
+                resource: def.name,
+                operation: "stop",
+                error: new ContainerLifecycleError({
                   message: `Error stopping service '${def.name}'`,
                   cause: {
                     containerName: def.name,
@@ -255,21 +766,57 @@ export class ComposeEnvironment<T extends Record<string, any>> {
                   },
                   parent: error instanceof Error ? error : undefined,
                 }),
-              );
+              });
             }
           }
 
-          if (errors.length > 0) {
-            throw errors[0];
+          try {
+            await runLifecycleHooks("onStopped", this.hooks.onStopped, [], target);
+          } catch (error) {
+            failures.push({
+              resource: this.composeFile,
+              operation: "onStopped",
+              error: error as Error,
+            });
+          }
+          events.emit("stopped");
+
+          if (failures.length > 0) {
+            throw createCleanupError(this.composeFile, failures);
           }
         },
       };
+
+      // From here on the controller's cleanup takes the environment down
+      cleanup = () => controller.cleanup();
+      tearDown = null;
+
+      try {
+        await runLifecycleHooks("onReady", this.hooks.onReady, [controller], target);
+      } catch (error) {
+        await controller.cleanup().catch(() => {});
+        throw error;
+      }
+
+      return controller;
     } catch (error) {
+      if (tearDown) {
+        unregister();
+        await tearDown().catch(() => {});
+      }
+
       // Rethrow known errors
       if (
         isError(error, ComposeError) ||
         isError(error, ServiceNotFoundError) ||
-        isError(error, ContainerLifecycleError)
+        isError(error, ContainerLifecycleError) ||
+        isError(error, ImageError) ||
+        isError(error, ComposeFileNotFoundError) ||
+        isError(error, InvalidComposeFileError) ||
+        isError(error, ContainerTimeoutError) ||
+        isError(error, NetworkError) ||
+        isError(error, DockerDaemonError) ||
+        isError(error, ExecutionError)
       )
         throw error;
 
@@ -2,49 +2,134 @@ import {
   GenericContainer,
   type StartedTestContainer,
   type WaitStrategy,
-  PullPolicy,
   type StartedNetwork,
   BuildOptions,
+  RandomUuid,
+  Wait,
 } from "testcontainers";
 
-import type { ContainerConfig, PortMapping, FileConfig } from "../types";
+import type {
+  ContainerConfig,
+  PortMapping,
+  FileConfig,
+  PullPolicyName,
+  RetryOptions,
+  CheckDockerOptions,
+} from "../types";
 import {
-  ComposeFileNotFoundError,
+  type CleanupFailure,
   ConfigurationError,
   ContainerLifecycleError,
+  createCleanupError,
   createNotStartedError,
+  DockerDaemonError,
   ExecutionError,
   ImageBuildError,
   ImageError,
-  ImagePullError,
-  InvalidComposeFileError,
   isError,
+  NetworkNotFoundError,
   PortBindingError,
 } from "~/errors";
-import path from "node:path";
-
-export interface ExecOptions {
-  user?: string;
-  workingDir?: string;
-  env?: Record<string, string>;
+import { EventEmitter } from "node:events";
+import { classifyError } from "./classify";
+import type { ContainerDefinition } from "./definition";
+import {
+  type LifecycleEvents,
+  type LifecycleHook,
+  createLifecycleHooks,
+  runLifecycleHooks,
+} from "./hooks";
+import { type ExecOptions, type ExecResponse, type ExecStream, runExec, streamExec } from "./exec";
+import {
+  type ContainerFileEntry,
+  copyFromContainer,
+  copyToContainer,
+  listContainerDir,
+  readContainerFile,
+  writeContainerFile,
+} from "./files";
+import { exposeHostPorts } from "./host-ports";
+import { getLogger } from "./logger";
+import { type ContainerLogs, LogRingBuffer, attachRecentLogs, createContainerLogs } from "./logs";
+import { attachNetwork, detachNetwork, hasNetwork, releaseNetwork } from "./network";
+import { ensureDocker } from "./preflight";
+import { resolvePullPolicy } from "./pull-policy";
+import { registerResource } from "./registry";
+import { runResetCommand } from "./reset";
+import { START_ID_LABEL, removeStartAttempts, retryStart } from "./retry";
+import {
+  type ContainerSnapshot,
+  createSnapshotDirectory,
+  getVolumeArchives,
+  removeSnapshot,
+  removeSnapshotDirectory,
+  takeSnapshot,
+} from "./snapshot";
+import { assertValidContainerConfig } from "./validate";
+import { TrackedWaitStrategy, describeWaitStrategy } from "./wait";
+
+export interface RestoreOptions {
+  /**
+   * Readiness check for the recreated container (default: the container's own strategy).
+   * Images that log a readiness message twice on first boot, like postgres, log it once here.
+   */
+  waitStrategy?: WaitStrategy;
 }
 
-export interface ExecResponse {
-  output: string;
-  stdout: string;
-  stderr: string;
-  exitCode: number;
+export interface ContainerEvents extends LifecycleEvents {
+  restarted: [];
+  restored: [snapshot: string];
 }
 
 export interface ContainerController {
   instance: StartedTestContainer;
   host: string;
   ports: Record<number, number>;
+  /**
+   * Emits `beforeStop`, `stopped`, `restarted` and `restored`
+   */
+  events: EventEmitter<ContainerEvents>;
 
   // Runtime operations
   exec: (cmd: string[], opts?: ExecOptions) => Promise<ExecResponse>;
-  logs: () => Promise<NodeJS.ReadableStream>;
+  /**
+   * Like `exec()`, but yields stdout and stderr chunks as the command writes them
+   */
+  execStream: (cmd: string[], opts?: ExecOptions) => ExecStream;
+  logs: ContainerLogs;
   restart: () => Promise<void>;
+
+  // File transfer, through tar archives like `docker cp`
+  /**
+   * Copy a host file or directory into the container, creating missing parents
+   */
+  copyTo: (hostPath: string, containerPath: string) => Promise<void>;
+  /**
+   * Copy a container file or directory to the host, e.g. reports or crash dumps after a test
+   */
+  copyFrom: (containerPath: string, hostPath: string) => Promise<void>;
+  readFile: (path: string) => Promise<Buffer>;
+  writeFile: (path: string, content: string | Buffer, mode?: number) => Promise<void>;
+  listDir: (path: string) => Promise<ContainerFileEntry[]>;
+
+  /**
+   * Forward more host ports to the container; needs `withExposedHostPorts()` before `start()`
+   */
+  exposeHostPorts: (...ports: number[]) => Promise<void>;
+  /**
+   * Run the reset commands and hooks registered with `withResetCommand()` and `onReset()`, in order
+   */
+  reset: () => Promise<void>;
+  /**
+   * Commit the container's filesystem and volumes to a local image under a name,
+   * replacing any earlier snapshot with the same name
+   */
+  snapshot: (name: string) => Promise<void>;
+  /**
+   * Recreate the container from a snapshot on the same host ports; `instance` and `logs`
+   * then refer to the new container
+   */
+  restore: (name: string, options?: RestoreOptions) => Promise<void>;
   getIpAddress: (networkName: string) => string;
 
   cleanup: () => Promise<void>;
@@ -85,12 +170,23 @@ export interface DockerfileConfig {
   deleteOnExit?: boolean;
 }
 
+const DEFAULT_LOG_BUFFER_SIZE = 100;
+
+const buildLog = getLogger("build");
+const pullLog = getLogger("pull");
+const startLog = getLogger("start");
+const stopLog = getLogger("stop");
+const snapshotLog = getLogger("snapshot");
+
 export class StandaloneContainer {
   private containerDef: GenericContainer;
   private config: Partial<ContainerConfig> = {};
   private containerInstance: StartedTestContainer | null = null;
   private isFromDockerfile = false;
+  private dockerfile: DockerfileConfig | null = null;
   private imageName: string;
+  private hooks = createLifecycleHooks<StartedTestContainer, ContainerController>();
+  private resetSteps: Array<string[] | LifecycleHook<[ContainerController]>> = [];
 
   constructor(imageOrContainer: string | GenericContainer) {
     if (typeof imageOrContainer === "string") {
@@ -110,9 +206,6 @@ export class StandaloneContainer {
     const context = config.context || ".";
 
     try {
-      // Validate Dockerfile exists (optional but helpful)
-      const dockerfilePath = path.join(context, config.dockerfile);
-
       let builder = GenericContainer.fromDockerfile(context, config.dockerfile);
 
       // Apply build args
@@ -173,67 +266,50 @@ export class StandaloneContainer {
 
       let builtContainer: GenericContainer;
 
+      const startedAt = Date.now();
+      buildLog.info("Building image", { dockerfile: config.dockerfile, context, tag: config.tag });
+
       try {
-        console.log(`Building Docker image from '${config.dockerfile}'...`);
         builtContainer = await builder.build(config.tag, buildOptions);
-        console.log(`✅ Successfully built image${config.tag ? ` '${config.tag}'` : ""}`);
+        buildLog.info("Built image", {
+          dockerfile: config.dockerfile,
+          tag: config.tag,
+          durationMs: Date.now() - startedAt,
+        });
       } catch (error) {
         // Determine the type of build failure
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        buildLog.error("Failed to build image", {
+          dockerfile: config.dockerfile,
+          tag: config.tag,
+          durationMs: Date.now() - startedAt,
+          error: errorMessage,
+        });
 
-        // Check for specific error patterns
-        if (errorMessage.includes("pull") || errorMessage.includes("registry")) {
-          throw new ImagePullError({
-            message: `Failed to pull base image while building '${config.dockerfile}'`,
+        throw (
+          classifyError(error, {
+            containerName: config.dockerfile,
+            image: config.tag,
+            operation: "build",
+            build: { dockerfile: config.dockerfile, context, stage: config.target },
+          }) ??
+          new ImageBuildError({
+            message: "Failed to build image from Dockerfile",
             cause: {
               imageName: config.dockerfile,
-              tag: config.tag,
+              dockerfile: config.dockerfile,
+              context: context,
+              buildStage: config.target,
               reason: errorMessage,
-              authenticated: false,
             },
             parent: error instanceof Error ? error : undefined,
-          });
-        }
-
-        if (errorMessage.includes("not found") || errorMessage.includes("no such file")) {
-          throw new ComposeFileNotFoundError({
-            message: `Dockerfile not found: '${config.dockerfile}'`,
-            cause: {
-              composePath: context,
-              filePath: dockerfilePath,
-              searchedPaths: [context, dockerfilePath],
-            },
-            parent: error instanceof Error ? error : undefined,
-          });
-        }
-
-        if (errorMessage.includes("parse") || errorMessage.includes("syntax")) {
-          throw new InvalidComposeFileError({
-            message: `Invalid Dockerfile syntax in '${config.dockerfile}'`,
-            cause: {
-              composeFile: config.dockerfile,
-              parseError: errorMessage,
-            },
-            parent: error instanceof Error ? error : undefined,
-          });
-        }
-
-        // Generic image build error
-        throw new ImageBuildError({
-          message: "Failed to build image from Dockerfile",
-          cause: {
-            imageName: config.dockerfile,
-            dockerfile: config.dockerfile,
-            context: context,
-            buildStage: config.target,
-            reason: errorMessage,
-          },
-          parent: error instanceof Error ? error : undefined,
-        });
+          })
+        );
       }
 
       const instance = new StandaloneContainer(builtContainer);
       instance.isFromDockerfile = true;
+      instance.dockerfile = config;
       instance.imageName = config.tag || `${config.dockerfile}:latest`;
 
       return instance;
@@ -241,10 +317,9 @@ export class StandaloneContainer {
       // Re-throw custom errors
       if (
         isError(error, ImageError) ||
-        isError(error, ImagePullError) ||
         isError(error, ConfigurationError) ||
-        isError(error, ComposeFileNotFoundError) ||
-        isError(error, InvalidComposeFileError)
+        isError(error, DockerDaemonError) ||
+        isError(error, ExecutionError)
       ) {
         throw error;
       }
@@ -268,6 +343,27 @@ export class StandaloneContainer {
   static fromRegistry(registry: string, image: string, tag = "latest"): StandaloneContainer {
     return new StandaloneContainer(`${registry}/${image}:${tag}`);
   }
+  /**
+   * Apply a container config; list and record settings are merged with anything already set
+   */
+  withConfig(config: ContainerConfig): this {
+    const { image: _image, ...rest } = config;
+
+    const previous = this.config;
+    this.config = { ...previous, ...rest };
+
+    if (rest.env) {
+      this.config.env = { ...previous.env, ...rest.env };
+    }
+    if (rest.labels) {
+      this.config.labels = { ...previous.labels, ...rest.labels };
+    }
+    if (rest.exposedPorts) {
+      this.config.exposedPorts = [...(previous.exposedPorts || []), ...rest.exposedPorts];
+    }
+    return this;
+  }
+
   /**
    * Expose a single port
    */
@@ -372,17 +468,27 @@ export class StandaloneContainer {
     return this;
   }
 
+  /**
+   * Let the container reach these host ports as `host.testcontainers.internal:<port>`,
+   * e.g. a webhook receiver in the test process; more can be added after start
+   */
+  withExposedHostPorts(...ports: number[]): this {
+    this.config.exposedHostPorts = [
+      ...new Set([...(this.config.exposedHostPorts ?? []), ...ports]),
+    ];
+    return this;
+  }
+
   /**
    * Copy content to container (inline content, not files)
    */
   withCopyContent(content: Array<{ content: string; target: string; mode?: number }>): this {
-    // Store for later processing
-    (this.config as any).copyContent = content;
+    this.config.copyContent = content;
     return this;
   }
 
   /**
-   * Join a network (pass network name or StartedNetwork)
+   * Join a network (pass the name of a network created with useNetwork() or a StartedNetwork)
    */
   withNetwork(network: string | StartedNetwork): this {
     if (typeof network === "string") {
@@ -410,10 +516,91 @@ export class StandaloneContainer {
     return this;
   }
 
+  /**
+   * Number of recent output lines kept for `logs.recent()` and error reports (0 disables capture)
+   */
+  withLogBuffer(lines: number): this {
+    this.config.logBufferSize = lines;
+    return this;
+  }
+
+  /**
+   * Check Docker is usable before the first start in this process, failing fast if not
+   */
+  withPreflight(options: CheckDockerOptions = {}): this {
+    this.config.preflight = options;
+    return this;
+  }
+
+  /**
+   * Retry transient start failures (image pulls, daemon hiccups, port races)
+   */
+  withRetry(options: RetryOptions = {}): this {
+    this.config.retry = options;
+    return this;
+  }
+
+  /**
+   * Run before the container is created
+   */
+  onBeforeStart(hook: LifecycleHook<[]>): this {
+    this.hooks.onBeforeStart.push(hook);
+    return this;
+  }
+
+  /**
+   * Run once the container is running and its wait strategy passed
+   */
+  onStarted(hook: LifecycleHook<[StartedTestContainer]>): this {
+    this.hooks.onStarted.push(hook);
+    return this;
+  }
+
+  /**
+   * Run once the controller is ready, e.g. to seed data
+   */
+  onReady(hook: LifecycleHook<[ContainerController]>): this {
+    this.hooks.onReady.push(hook);
+    return this;
+  }
+
+  /**
+   * Run at the start of cleanup while the container is still running, e.g. to dump state
+   */
+  onBeforeStop(hook: LifecycleHook<[ContainerController]>): this {
+    this.hooks.onBeforeStop.push(hook);
+    return this;
+  }
+
+  /**
+   * Run after the container has been stopped
+   */
+  onStopped(hook: LifecycleHook<[]>): this {
+    this.hooks.onStopped.push(hook);
+    return this;
+  }
+
+  /**
+   * Run a command in the container on `reset()`, e.g. `redis-cli FLUSHALL`;
+   * a non-zero exit code fails the reset
+   */
+  withResetCommand(...command: string[]): this {
+    this.resetSteps.push(command);
+    return this;
+  }
+
+  /**
+   * Run on `reset()`, after any reset commands registered before it
+   */
+  onReset(hook: LifecycleHook<[ContainerController]>): this {
+    this.resetSteps.push(hook);
+    return this;
+  }
+
   /**
    * Set pull policy
    */
-  withPullPolicy(policy: "alwaysPull" | "never"): this {
+  withPullPolicy(policy: PullPolicyName): this {
     this.config.pullPolicy = policy;
     return this;
   }
@@ -442,6 +629,38 @@ export class StandaloneContainer {
     return this;
   }
 
+  /**
+   * Set resource limits by name, e.g. `{ nofile: { soft: 65536, hard: 65536 } }`
+   */
+  withUlimits(ulimits: Record<string, { soft: number; hard: number }>): this {
+    this.config.ulimits = { ...this.config.ulimits, ...ulimits };
+    return this;
+  }
+
+  /**
+   * Set the size of `/dev/shm` in bytes
+   */
+  withSharedMemorySize(bytes: number): this {
+    this.config.sharedMemorySize = bytes;
+    return this;
+  }
+
+  /**
+   * Set the IPC namespace mode (`private`, `shareable`, `host`, `none` or `container:<name>`)
+   */
+  withIpcMode(mode: string): this {
+    this.config.ipcMode = mode;
+    return this;
+  }
+
+  /**
+   * Set the network mode (`bridge`, `host`, `none`, `container:<name>` or a network name)
+   */
+  withNetworkMode(mode: string): this {
+    this.config.networkMode = mode;
+    return this;
+  }
+
   /**
    * Set tmpfs mounts
    */
@@ -459,139 +678,303 @@ export class StandaloneContainer {
   }
 
   /**
-   * Start the container
+   * Serialize the builder into a definition `fromConfig()` accepts
+   *
+   * Wait strategies are kept when they were created from a definition; callbacks
+   * (retry backoff functions, `retryOn`, hooks) and network objects can't be written out.
    */
-  async start(): Promise<ContainerController> {
-    try {
-      let configured = this.containerDef;
+  toConfig(): ContainerDefinition {
+    const { waitStrategy, network, retry, image: _image, ...rest } = this.config;
+    const definition: ContainerDefinition = this.dockerfile
+      ? { dockerfile: { ...this.dockerfile }, ...structuredClone(rest) }
+      : { image: this.imageName, ...structuredClone(rest) };
+
+    const wait = waitStrategy && describeWaitStrategy(waitStrategy);
+    if (wait) {
+      definition.waitStrategy = { ...wait };
+    }
 
-      // Apply all configuration
-      if (this.config.command) {
-        configured = configured.withCommand(this.config.command);
-      }
+    if (typeof network === "string") {
+      definition.network = network;
+    }
 
-      if (this.config.entrypoint) {
-        configured = configured.withEntrypoint(this.config.entrypoint);
-      }
+    if (retry) {
+      definition.retry = {
+        ...(retry.attempts !== undefined && { attempts: retry.attempts }),
+        ...(typeof retry.backoff === "number" && { backoff: retry.backoff }),
+      };
+    }
 
-      if (this.config.env) {
-        configured = configured.withEnvironment(this.config.env);
-      }
+    return definition;
+  }
 
-      if (this.config.platform) {
-        configured = configured.withPlatform(this.config.platform);
-      }
+  /**
+   * Check the configuration without touching Docker, throwing one `ValidationError`
+   * that lists every problem; `start()` runs this first
+   */
+  validate(): void {
+    assertValidContainerConfig(this.imageName, this.config);
+  }
 
-      if (this.config.workingDir) {
-        configured = configured.withWorkingDir(this.config.workingDir);
-      }
+  /**
+   * Apply the settings that describe the container itself, shared by start and restore
+   */
+  private applyConfig(
+    container: GenericContainer,
+    exposedPorts = this.config.exposedPorts,
+  ): GenericContainer {
+    let configured = container;
+
+    if (this.config.command) {
+      configured = configured.withCommand(this.config.command);
+    }
 
-      if (this.config.user) {
-        configured = configured.withUser(this.config.user);
-      }
+    if (this.config.entrypoint) {
+      configured = configured.withEntrypoint(this.config.entrypoint);
+    }
 
-      if (this.config.labels) {
-        configured = configured.withLabels(this.config.labels);
-      }
+    if (this.config.env) {
+      configured = configured.withEnvironment(this.config.env);
+    }
 
-      if (this.config.privileged) {
-        configured = configured.withPrivilegedMode();
-      }
+    if (this.config.platform) {
+      configured = configured.withPlatform(this.config.platform);
+    }
 
-      if (this.config.resources) {
-        configured = configured.withResourcesQuota(this.config.resources);
-      }
+    if (this.config.workingDir) {
+      configured = configured.withWorkingDir(this.config.workingDir);
+    }
 
-      if (this.config.tmpFs) {
-        configured = configured.withTmpFs(this.config.tmpFs);
-      }
+    if (this.config.user) {
+      configured = configured.withUser(this.config.user);
+    }
 
-      if (this.config.copyFiles) {
-        configured = configured.withCopyFilesToContainer(this.config.copyFiles);
-      }
+    if (this.config.labels) {
+      configured = configured.withLabels(this.config.labels);
+    }
 
-      if (this.config.copyDirectories) {
-        configured = configured.withCopyDirectoriesToContainer(this.config.copyDirectories);
-      }
+    if (this.config.privileged) {
+      configured = configured.withPrivilegedMode();
+    }
 
-      if (this.config.exposedPorts) {
-        try {
-          configured = configured.withExposedPorts(...this.config.exposedPorts);
-        } catch (error) {
-          throw new PortBindingError({
-            message: `Failed to expose ports for ${this.image}`,
-            cause: {
-              port: this.config.exposedPorts[0] as number,
-              reason: error instanceof Error ? error.message : "Unknown error",
-            },
-            parent: error instanceof Error ? error : undefined,
-          });
-        }
-      }
+    if (this.config.resources) {
+      configured = configured.withResourcesQuota(this.config.resources);
+    }
 
-      if (this.config.networkAliases) {
-        configured = configured.withNetworkAliases(...this.config.networkAliases);
-      }
+    if (this.config.ulimits) {
+      configured = configured.withUlimits(this.config.ulimits);
+    }
 
-      if (this.config.extraHosts) {
-        configured = configured.withExtraHosts(this.config.extraHosts);
-      }
+    if (this.config.sharedMemorySize !== undefined) {
+      configured = configured.withSharedMemorySize(this.config.sharedMemorySize);
+    }
 
-      // Handle inline content
-      if ((this.config as any).copyContent) {
-        configured = configured.withCopyContentToContainer((this.config as any).copyContent);
-      }
+    if (this.config.ipcMode) {
+      configured = configured.withIpcMode(this.config.ipcMode);
+    }
 
-      if (this.config.waitStrategy) {
-        configured = configured.withWaitStrategy(this.config.waitStrategy);
+    if (this.config.networkMode) {
+      configured = configured.withNetworkMode(this.config.networkMode);
+    }
+
+    if (this.config.tmpFs) {
+      configured = configured.withTmpFs(this.config.tmpFs);
+    }
+
+    if (this.config.copyFiles) {
+      configured = configured.withCopyFilesToContainer(this.config.copyFiles);
+    }
+
+    if (this.config.copyDirectories) {
+      configured = configured.withCopyDirectoriesToContainer(this.config.copyDirectories);
+    }
+
+    if (exposedPorts) {
+      try {
+        configured = configured.withExposedPorts(...exposedPorts);
+      } catch (error) {
+        throw new PortBindingError({
+          message: `Failed to expose ports for ${this.image}`,
+          cause: {
+            port: exposedPorts[0] as number,
+            reason: error instanceof Error ? error.message : "Unknown error",
+          },
+          parent: error instanceof Error ? error : undefined,
+        });
       }
+    }
 
-      if (this.config.pullPolicy === "alwaysPull") {
-        configured = configured.withPullPolicy(PullPolicy.alwaysPull());
+    if (this.config.networkAliases) {
+      configured = configured.withNetworkAliases(...this.config.networkAliases);
+    }
+
+    if (this.config.extraHosts) {
+      configured = configured.withExtraHosts(this.config.extraHosts);
+    }
+
+    // Handle inline content
+    if (this.config.copyContent) {
+      configured = configured.withCopyContentToContainer(this.config.copyContent);
+    }
+
+    if (this.config.defaultLogDriver) {
+      configured = configured.withDefaultLogDriver();
+    }
+
+    if (this.config.capabilities) {
+      if (this.config.capabilities.add) {
+        configured = configured.withAddedCapabilities(...this.config.capabilities.add);
+      }
+      if (this.config.capabilities.drop) {
+        configured = configured.withDroppedCapabilities(...this.config.capabilities.drop);
       }
+    }
 
-      if (this.config.reuse) {
-        configured = configured.withReuse();
+    return configured;
+  }
+
+  /**
+   * Start the container
+   */
+  async start(): Promise<ContainerController> {
+    this.validate();
+
+    // Tracked network this container holds a reference on, released on cleanup
+    let attachedNetwork: string | null = null;
+    let joinedNetwork: StartedNetwork | undefined;
+    // Recent output, attached to lifecycle errors so failures show why the container died
+    const logBuffer = new LogRingBuffer(this.config.logBufferSize ?? DEFAULT_LOG_BUFFER_SIZE);
+    // Stops a container that started but whose start failed later on
+    let stopStarted: (() => Promise<void>) | null = null;
+    let unregister = (): void => {};
+
+    try {
+      if (this.config.preflight) {
+        await ensureDocker(this.config.preflight === true ? undefined : this.config.preflight);
       }
 
-      if (this.config.defaultLogDriver) {
-        configured = configured.withDefaultLogDriver();
+      await runLifecycleHooks("onBeforeStart", this.hooks.onBeforeStart, [], {
+        containerName: this.imageName,
+      });
+
+      let configured = this.applyConfig(this.containerDef);
+
+      // Wrapped so readiness is timed even with the default strategy
+      const wait = new TrackedWaitStrategy(
+        this.config.waitStrategy ?? Wait.forListeningPorts(),
+        this.imageName,
+      );
+      configured = configured.withWaitStrategy(wait);
+
+      // Images built from a Dockerfile are already in the local cache
+      if (this.config.pullPolicy && !this.isFromDockerfile) {
+        const pullPolicy = await resolvePullPolicy(this.config.pullPolicy, this.imageName);
+        pullLog.debug("Resolved pull policy", {
+          image: this.imageName,
+          policy: this.config.pullPolicy,
+          pull: pullPolicy.shouldPull(),
+        });
+        configured = configured.withPullPolicy(pullPolicy);
       }
 
-      if (this.config.capabilities) {
-        if (this.config.capabilities.add) {
-          configured = configured.withAddedCapabilities(...this.config.capabilities.add);
-        }
-        if (this.config.capabilities.drop) {
-          configured = configured.withDroppedCapabilities(...this.config.capabilities.drop);
-        }
+      if (this.config.reuse) {
+        configured = configured.withReuse();
       }
 
       // Handle network - could be string or StartedNetwork
       if (this.config.network) {
         if (typeof this.config.network === "string") {
-          // If it's a string, we can't actually join it without a StartedNetwork object
-          // User needs to pass the actual network object or manage networks separately
-          console.warn(
-            "Network name provided but network object is needed. Use `.withNetwork(startedNetwork)` instead.",
-          );
+          // Join a network created through useNetwork()
+          joinedNetwork = attachNetwork(this.config.network);
+          configured = configured.withNetwork(joinedNetwork);
+          attachedNetwork = this.config.network;
         } else {
-          configured = configured.withNetwork(this.config.network as any);
+          const network = this.config.network as StartedNetwork;
+          if (hasNetwork(network.getName())) {
+            attachNetwork(network.getName());
+            attachedNetwork = network.getName();
+          }
+          joinedNetwork = network;
+          configured = configured.withNetwork(network);
         }
       }
 
+      if (this.config.logBufferSize !== 0) {
+        configured = configured.withLogConsumer((stream) => logBuffer.consume(stream));
+      }
+
+      // testcontainers adds the host alias to containers created while the forwarder runs
+      if (this.config.exposedHostPorts) {
+        await exposeHostPorts(...this.config.exposedHostPorts);
+      }
+
+      // Label each attempt's container so a half-started one can be removed before retrying
+      const startId =
+        this.config.retry && !this.config.reuse ? new RandomUuid().nextUuid() : undefined;
+      if (startId) {
+        configured = configured.withLabels({ [START_ID_LABEL]: startId });
+      }
+
       // Start the container
-      try {
-        this.containerInstance = await configured.start();
-      } catch (error) {
-        throw new ContainerLifecycleError({
-          message: `Failed to start container from image '${this.imageName}'`,
-          cause: {
-            currentState: "failed",
-            expectedState: "running",
-            containerId: this.containerInstance?.getId(),
-          },
-          parent: error instanceof Error ? error : undefined,
+      this.containerInstance = await retryStart(
+        this.imageName,
+        this.config.retry,
+        async (attempt) => {
+          const startedAt = Date.now();
+          startLog.info("Starting container", { image: this.imageName, attempt });
+          try {
+            const instance = await configured.start();
+            startLog.info("Started container", {
+              image: this.imageName,
+              container: instance.getName(),
+              containerId: instance.getId(),
+              durationMs: Date.now() - startedAt,
+            });
+            return instance;
+          } catch (error) {
+            startLog.error("Failed to start container", {
+              image: this.imageName,
+              attempt,
+              durationMs: Date.now() - startedAt,
+              error: error instanceof Error ? error.message : String(error),
+            });
+            throw (
+              classifyError(error, {
+                containerName: this.imageName,
+                image: this.imageName,
+                operation: "start",
+                waitStrategy: wait.inner.constructor.name,
+                timeoutMs: wait.getStartupTimeout(),
+                recentLogs: logBuffer.lines(),
+              }) ??
+              new ContainerLifecycleError({
+                message: `Failed to start container from image '${this.imageName}'`,
+                cause: {
+                  currentState: "failed",
+                  expectedState: "running",
+                  recentLogs: logBuffer.lines(),
+                },
+                parent: error instanceof Error ? error : undefined,
+              })
+            );
+          }
+        },
+        startId ? () => removeStartAttempts(startId) : undefined,
+      );
+
+      const instance = this.containerInstance;
+      let cleanup = async () => {
+        this.containerInstance = null;
+        await instance.stop();
+      };
+      stopStarted = cleanup;
+      // Tracked as soon as it exists, so exiting during the rest of start still stops it;
+      // reused containers are meant to outlive the process
+      if (!this.config.reuse) {
+        unregister = registerResource({
+          kind: "container",
+          name: this.imageName,
+          cleanup: () => cleanup(),
         });
       }
 
@@ -615,45 +998,84 @@ export class StandaloneContainer {
         }
       }
 
-      return {
+      const target = { containerName: this.imageName, containerId: this.containerInstance.getId() };
+      const events = new EventEmitter<ContainerEvents>();
+      const snapshots = new Map<string, ContainerSnapshot>();
+      let snapshotDirectory: string | null = null;
+
+      // Network references and snapshots outlive any one container, so restore releases them too
+      const releaseResources = async (): Promise<CleanupFailure[]> => {
+        const failures: CleanupFailure[] = [];
+
+        if (attachedNetwork) {
+          const networkName = attachedNetwork;
+          attachedNetwork = null;
+          try {
+            await detachNetwork(networkName);
+          } catch (error) {
+            failures.push({
+              resource: networkName,
+              operation: "remove network",
+              error: error instanceof Error ? error : new Error(String(error)),
+            });
+          }
+        }
+
+        for (const snapshot of snapshots.values()) {
+          try {
+            await removeSnapshot(snapshot);
+          } catch (error) {
+            failures.push({
+              resource: snapshot.image,
+              operation: "remove snapshot",
+              error: error instanceof Error ? error : new Error(String(error)),
+            });
+          }
+        }
+        snapshots.clear();
+
+        if (snapshotDirectory) {
+          await removeSnapshotDirectory(snapshotDirectory);
+          snapshotDirectory = null;
+        }
+
+        return failures;
+      };
+
+      const controller: ContainerController = {
         instance: this.containerInstance,
         host: this.containerInstance.getHost(),
         ports,
+        events,
 
         // Runtime operations
         exec: async (cmd: string[], opts?: ExecOptions) => {
           if (!this.containerInstance) {
             throw createNotStartedError(this.imageName, "execute command");
           }
-          try {
-            return await this.containerInstance.exec(cmd, opts);
-          } catch (error) {
-            throw new ExecutionError({
-              message: `Failed to execute command in container: ${cmd.join(" ")}`,
-              cause: {
-                command: cmd,
-                exitCode: (error as any)?.exitCode,
-                stderr: (error as any)?.stderr,
-              },
-              parent: error instanceof Error ? error : undefined,
-            });
-          }
+          return await runExec(this.containerInstance, cmd, opts ?? {}, this.imageName);
         },
 
-        logs: async () => {
+        execStream: (cmd: string[], opts?: ExecOptions) => {
           if (!this.containerInstance) {
-            throw createNotStartedError(this.imageName, "fetch logs");
+            throw createNotStartedError(this.imageName, "execute command");
           }
-          return await this.containerInstance.logs();
+          return streamExec(this.containerInstance, cmd, opts ?? {}, this.imageName);
         },
 
+        logs: createContainerLogs(this.containerInstance, logBuffer),
+
         restart: async () => {
           if (!this.containerInstance) {
             throw createNotStartedError(this.imageName, "restart");
           }
 
           try {
+            const restartedAt = Math.floor(Date.now() / 1000);
             await this.containerInstance.restart();
+            // The original log stream ends when the container stops
+            logBuffer.consume(await this.containerInstance.logs({ since: restartedAt }));
+            events.emit("restarted");
           } catch (error) {
             throw new ContainerLifecycleError({
               message: `Failed to restart container '${this.imageName}'`,
@@ -661,45 +1083,309 @@ export class StandaloneContainer {
                 currentState: "unknown",
                 expectedState: "running",
                 containerId: this.containerInstance.getId(),
+                recentLogs: logBuffer.lines(),
               },
               parent: error instanceof Error ? error : undefined,
             });
           }
         },
 
-        getIpAddress: (networkName: string) => {
+        copyTo: async (hostPath: string, containerPath: string) => {
           if (!this.containerInstance) {
-            throw createNotStartedError(this.imageName, "get IP address");
+            throw createNotStartedError(this.imageName, "copy files");
           }
-          return this.containerInstance.getIpAddress(networkName);
+          await copyToContainer(this.containerInstance, hostPath, containerPath, this.imageName);
         },
 
-        cleanup: async () => {
-          if (this.containerInstance) {
-            try {
-              await this.containerInstance.stop();
-            } catch (error) {
-              throw new ContainerLifecycleError({
-                message: `Failed to cleanup container '${this.imageName}'`,
+        copyFrom: async (containerPath: string, hostPath: string) => {
+          if (!this.containerInstance) {
+            throw createNotStartedError(this.imageName, "copy files");
+          }
+          await copyFromContainer(this.containerInstance, containerPath, hostPath, this.imageName);
+        },
+
+        readFile: async (filePath: string) => {
+          if (!this.containerInstance) {
+            throw createNotStartedError(this.imageName, "read file");
+          }
+          return await readContainerFile(this.containerInstance, filePath, this.imageName);
+        },
+
+        writeFile: async (filePath: string, content: string | Buffer, mode?: number) => {
+          if (!this.containerInstance) {
+            throw createNotStartedError(this.imageName, "write file");
+          }
+          await writeContainerFile(this.containerInstance, filePath, content, mode, this.imageName);
+        },
+
+        listDir: async (dirPath: string) => {
+          if (!this.containerInstance) {
+            throw createNotStartedError(this.imageName, "list directory");
+          }
+          return await listContainerDir(this.containerInstance, dirPath, this.imageName);
+        },
+
+        exposeHostPorts: async (...hostPorts: number[]) => {
+          if (!this.config.exposedHostPorts) {
+            throw new ConfigurationError({
+              message: `Host ports can only be added to '${this.imageName}' when it was started with withExposedHostPorts()`,
+              cause: {
+                containerName: this.imageName,
+                configKey: "exposedHostPorts",
+                providedValue: hostPorts,
+                expectedType: "withExposedHostPorts() before start()",
+              },
+            });
+          }
+          await exposeHostPorts(...hostPorts);
+        },
+
+        reset: async () => {
+          if (!this.containerInstance) {
+            throw createNotStartedError(this.imageName, "reset");
+          }
+
+          for (const step of this.resetSteps) {
+            if (typeof step === "function") {
+              await step(controller);
+            } else {
+              await runResetCommand(this.containerInstance, step, this.imageName);
+            }
+          }
+        },
+
+        snapshot: async (name: string) => {
+          if (!this.containerInstance) {
+            throw createNotStartedError(this.imageName, "snapshot");
+          }
+
+          try {
+            snapshotDirectory ??= await createSnapshotDirectory();
+            const snapshot = await takeSnapshot(this.containerInstance, name, snapshotDirectory);
+            const previous = snapshots.get(name);
+            snapshots.set(name, snapshot);
+
+            if (previous) {
+              await removeSnapshot(previous).catch((error) => {
+                snapshotLog.warn("Failed to remove replaced snapshot", {
+                  snapshot: name,
+                  image: previous.image,
+                  error: error instanceof Error ? error.message : String(error),
+                });
+              });
+            }
+          } catch (error) {
+            throw new ContainerLifecycleError({
+              message: `Failed to snapshot container '${this.imageName}' as '${name}'`,
+              cause: {
+                containerName: this.imageName,
+                containerId: this.containerInstance.getId(),
+                operation: "snapshot",
+                currentState: "running",
+                expectedState: "running",
+              },
+              parent: error instanceof Error ? error : undefined,
+            });
+          }
+        },
+
+        restore: async (name: string, options: RestoreOptions = {}) => {
+          if (!this.containerInstance) {
+            throw createNotStartedError(this.imageName, "restore");
+          }
+
+          const snapshot = snapshots.get(name);
+          if (!snapshot) {
+            throw new ContainerLifecycleError({
+              message: `No snapshot named '${name}' for '${this.imageName}', take one with snapshot('${name}') first`,
+              cause: {
+                containerName: this.imageName,
+                containerId: this.containerInstance.getId(),
+                operation: "restore",
+                currentState: "running",
+                expectedState: "running",
+              },
+            });
+          }
+
+          // Same host ports, so connection details handed out earlier keep working
+          const pinnedPorts = Object.entries(ports).map(([containerPort, hostPort]) => ({
+            container: Number(containerPort),
+            host: hostPort,
+          }));
+          const restoreWait = new TrackedWaitStrategy(
+            options.waitStrategy ?? wait.inner,
+            this.imageName,
+          );
+
+          let restored = this.applyConfig(new GenericContainer(snapshot.image), pinnedPorts)
+            .withCopyArchivesToContainer(getVolumeArchives(snapshot))
+            .withWaitStrategy(restoreWait);
+          if (joinedNetwork) {
+            restored = restored.withNetwork(joinedNetwork);
+          }
+          if (this.config.logBufferSize !== 0) {
+            restored = restored.withLogConsumer((stream) => logBuffer.consume(stream));
+          }
+
+          const previous = this.containerInstance;
+          const startedAt = Date.now();
+          snapshotLog.info("Restoring snapshot", {
+            container: previous.getName(),
+            containerId: previous.getId(),
+            snapshot: name,
+          });
+
+          try {
+            await previous.stop();
+            this.containerInstance = null;
+            this.containerInstance = await restored.start();
+          } catch (error) {
+            const failure =
+              classifyError(error, {
+                containerName: this.imageName,
+                image: snapshot.image,
+                operation: "restore",
+                waitStrategy: restoreWait.inner.constructor.name,
+                timeoutMs: restoreWait.getStartupTimeout(),
+                recentLogs: restoreWait.recentLogs,
+              }) ??
+              new ContainerLifecycleError({
+                message: `Failed to restore '${this.imageName}' from snapshot '${name}'`,
                 cause: {
-                  currentState: "unknown",
-                  expectedState: "stopped",
-                  containerId: this.containerInstance.getId(),
+                  containerName: this.imageName,
+                  containerId: previous.getId(),
+                  operation: "restore",
+                  currentState: this.containerInstance ? "running" : "stopped",
+                  expectedState: "running",
+                  recentLogs: restoreWait.recentLogs,
                 },
                 parent: error instanceof Error ? error : undefined,
               });
-            } finally {
-              this.containerInstance = null;
+
+            // The old container is gone and the new one never started: nothing is left to clean up later
+            if (!this.containerInstance) {
+              unregister();
+              await releaseResources();
+              events.emit("stopped");
             }
+            throw failure;
+          }
+
+          controller.instance = this.containerInstance;
+          controller.logs = createContainerLogs(this.containerInstance, logBuffer);
+          target.containerId = this.containerInstance.getId();
+          snapshotLog.info("Restored snapshot", {
+            container: this.containerInstance.getName(),
+            containerId: this.containerInstance.getId(),
+            snapshot: name,
+            durationMs: Date.now() - startedAt,
+          });
+          events.emit("restored", name);
+        },
+
+        getIpAddress: (networkName: string) => {
+          if (!this.containerInstance) {
+            throw createNotStartedError(this.imageName, "get IP address");
+          }
+          return this.containerInstance.getIpAddress(networkName);
+        },
+
+        cleanup: async () => {
+          unregister();
+          if (!this.containerInstance) {
+            return;
+          }
+
+          // Attempt every resource, then report all failures together
+          const failures: CleanupFailure[] = [];
+          const containerId = this.containerInstance.getId();
+
+          try {
+            await runLifecycleHooks("onBeforeStop", this.hooks.onBeforeStop, [controller], target);
+          } catch (error) {
+            failures.push({
+              resource: this.imageName,
+              operation: "onBeforeStop",
+              error: error as Error,
+            });
+          }
+          events.emit("beforeStop");
+
+          const stopFields = { container: this.containerInstance.getName(), containerId };
+          const stoppedAt = Date.now();
+
+          try {
+            stopLog.info("Stopping container", stopFields);
+            await this.containerInstance.stop();
+            stopLog.info("Stopped container", {
+              ...stopFields,
+              durationMs: Date.now() - stoppedAt,
+            });
+          } catch (error) {
+            failures.push({
+              resource: this.imageName,
+              operation: "stop",
+              error: error instanceof Error ? error : new Error(String(error)),
+            });
+          } finally {
+            this.containerInstance = null;
+          }
+
+          failures.push(...(await releaseResources()));
+
+          try {
+            await runLifecycleHooks("onStopped", this.hooks.onStopped, [], target);
+          } catch (error) {
+            failures.push({
+              resource: this.imageName,
+              operation: "onStopped",
+              error: error as Error,
+            });
+          }
+          events.emit("stopped");
+
+          if (failures.length > 0) {
+            throw createCleanupError(this.imageName, failures, containerId);
           }
         },
       };
+
+      // From here on the controller's cleanup stops the container
+      cleanup = controller.cleanup;
+      stopStarted = null;
+
+      try {
+        await runLifecycleHooks("onStarted", this.hooks.onStarted, [controller.instance], target);
+        await runLifecycleHooks("onReady", this.hooks.onReady, [controller], target);
+      } catch (error) {
+        await controller.cleanup().catch(() => {});
+        throw error;
+      }
+
+      return controller;
     } catch (error) {
+      if (stopStarted) {
+        unregister();
+        await stopStarted().catch(() => {});
+      }
+
+      // Release the network reference taken for a container that never started; the
+      // network itself belongs to whoever created it and stays for other containers
+      if (attachedNetwork) {
+        releaseNetwork(attachedNetwork);
+      }
+
+      attachRecentLogs(error, logBuffer.lines());
+
       // Rethrow custom errors, wrap unknown errors
       if (
         isError(error, ContainerLifecycleError) ||
         isError(error, PortBindingError) ||
-        isError(error, ExecutionError)
+        isError(error, ExecutionError) ||
+        isError(error, NetworkNotFoundError) ||
+        isError(error, ImageError) ||
+        isError(error, DockerDaemonError)
       ) {
         throw error;
       }
@@ -709,6 +1395,7 @@ export class StandaloneContainer {
         cause: {
           currentState: "failed",
           expectedState: "running",
+          recentLogs: logBuffer.lines(),
         },
         parent: error instanceof Error ? error : undefined,
       });
@@ -0,0 +1,160 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ValidationError, type ValidationIssue } from "~/errors";
+import { parseEnvironmentDefinition } from "./definition";
+
+// Every issue a definition fails with, as [field, constraint]
+function issuesOf(input: unknown, env: Record<string, string | undefined> = {}) {
+  try {
+    parseEnvironmentDefinition(input, { env });
+  } catch (error) {
+    assert.ok(error instanceof ValidationError);
+    const { issues } = error as unknown as { issues: ValidationIssue[] };
+    return issues.map((issue) => [issue.field, issue.constraint]);
+  }
+  assert.fail("definition was accepted");
+}
+
+describe("parseEnvironmentDefinition", () => {
+  it("returns a valid container definition with values normalized", () => {
+    const definition = parseEnvironmentDefinition(
+      {
+        container: {
+          image: "redis:7",
+          exposedPorts: [6379, { container: 80, host: "8080" }],
+          privileged: "false",
+          waitStrategy: { type: "log", message: "Ready to accept connections" },
+        },
+      },
+      { env: {} },
+    );
+
+    assert.deepEqual(definition, {
+      container: {
+        image: "redis:7",
+        exposedPorts: [6379, { container: 80, host: 8080 }],
+        privileged: false,
+        waitStrategy: { type: "log", message: "Ready to accept connections" },
+      },
+    });
+  });
+
+  describe("interpolation", () => {
+    const parse = (image: string, env: Record<string, string | undefined>) => {
+      const definition = parseEnvironmentDefinition({ container: { image } }, { env });
+      return "container" in definition ? definition.container.image : undefined;
+    };
+
+    it("replaces variables from the given environment", () => {
+      assert.equal(parse("${IMAGE}:${TAG}", { IMAGE: "redis", TAG: "7" }), "redis:7");
+    });
+
+    it("uses defaults for unset variables, and with ':-' for empty ones too", () => {
+      assert.equal(parse("redis:${TAG:-7}", {}), "redis:7");
+      assert.equal(parse("redis:${TAG:-7}", { TAG: "" }), "redis:7");
+      assert.equal(parse("redis:${TAG-7}", {}), "redis:7");
+      assert.equal(parse("redis${TAG-:7}", { TAG: "" }), "redis");
+      assert.equal(parse("redis:${TAG:-7}", { TAG: "6" }), "redis:6");
+    });
+
+    it("keeps '$$' as a literal '$'", () => {
+      assert.equal(parse("redis:$${TAG}", { TAG: "7" }), "redis:${TAG}");
+    });
+
+    it("reports variables that are not set, with where they were used", () => {
+      assert.deepEqual(
+        issuesOf({ container: { image: "redis:${TAG}", env: { PASSWORD: "${SECRET}" } } }),
+        [
+          ["$.container.image", "references TAG, which is not set"],
+          ["$.container.env.PASSWORD", "references SECRET, which is not set"],
+        ],
+      );
+    });
+
+    it("converts interpolated numbers and booleans", () => {
+      const definition = parseEnvironmentDefinition(
+        { container: { image: "redis", exposedPorts: ["${PORT}"], reuse: "${REUSE}" } },
+        { env: { PORT: "6379", REUSE: "true" } },
+      );
+
+      assert.deepEqual(definition, {
+        container: { image: "redis", exposedPorts: [6379], reuse: true },
+      });
+      assert.deepEqual(
+        issuesOf({ container: { image: "redis", exposedPorts: ["${PORT}"] } }, { PORT: "redis" }),
+        [["$.container.exposedPorts[0]", "must be a port number or { container, host }"]],
+      );
+    });
+  });
+
+  describe("issues", () => {
+    it("reports every problem at once, by JSON path", () => {
+      assert.deepEqual(
+        issuesOf({
+          container: {
+            image: "redis",
+            user: 7,
+            env: { "MY-VAR": 1 },
+            ulimits: { nofile: { soft: 1 } },
+            waitStrategy: { type: "http", path: "/health", port: 8080.5 },
+          },
+        }),
+        [
+          ['$.container.env["MY-VAR"]', "must be a string, got number"],
+          ["$.container.user", "must be a string, got number"],
+          ["$.container.ulimits.nofile.hard", "is required"],
+          ["$.container.waitStrategy.port", "must be an integer"],
+        ],
+      );
+    });
+
+    it("rejects unknown settings and wait strategy types", () => {
+      assert.deepEqual(
+        issuesOf({ container: { image: "redis", imagePullPolicy: "always" } })[0][0],
+        "$.container.imagePullPolicy",
+      );
+      assert.deepEqual(issuesOf({ container: { image: "redis", waitStrategy: { type: "tcp" } } }), [
+        [
+          "$.container.waitStrategy.type",
+          "must be one of ports, log, http, healthcheck, command, oneShot",
+        ],
+      ]);
+    });
+
+    it("requires exactly one of container or compose", () => {
+      assert.deepEqual(issuesOf({}), [["$", "must define exactly one of container or compose"]]);
+      assert.deepEqual(issuesOf({ container: { image: "redis" }, compose: { path: "." } }), [
+        ["$", "must define exactly one of container or compose"],
+      ]);
+    });
+
+    it("requires exactly one of image or dockerfile", () => {
+      const missing = [["$.container", "must set exactly one of image or dockerfile"]];
+
+      assert.deepEqual(issuesOf({ container: {} }), missing);
+      assert.deepEqual(
+        issuesOf({ container: { image: "redis", dockerfile: { dockerfile: "Dockerfile" } } }),
+        missing,
+      );
+    });
+
+    it("checks required compose settings", () => {
+      assert.deepEqual(issuesOf({ compose: { file: "docker-compose.yml" } }), [
+        ["$.compose.path", "is required"],
+      ]);
+      assert.deepEqual(issuesOf({ compose: { path: ".", down: { removeImages: "some" } } }), [
+        ["$.compose.down.removeImages", "must be one of all, local"],
+      ]);
+    });
+
+    it("applies the container rules once every type is right", () => {
+      assert.deepEqual(issuesOf({ container: { image: "redis", exposedPorts: [0] } }), [
+        ["$.container.exposedPorts[0]", "must be an integer from 1 to 65535"],
+      ]);
+      // A type error hides the rules, which would only repeat it
+      assert.deepEqual(issuesOf({ container: { image: "redis", user: 1, exposedPorts: [0] } }), [
+        ["$.container.user", "must be a string, got number"],
+      ]);
+    });
+  });
+});
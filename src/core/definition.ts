@@ -0,0 +1,601 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { parse } from "yaml";
+import { FileNotFoundError, type ValidationIssue, createValidationError } from "~/errors";
+import type { ComposeConfig, ComposeServiceWait, ContainerConfig } from "~/types";
+import { type ComposeEnvironment, useCompose } from "./compose";
+import { type DockerfileConfig, StandaloneContainer, useContainer } from "./container";
+import { validateContainerConfig } from "./validate";
+import { type WaitStrategyDefinition, createWaitStrategy } from "./wait";
+
+export { type WaitStrategyDefinition, createWaitStrategy } from "./wait";
+
+/**
+ * Retry policy as written in a definition; callbacks can't be serialized
+ */
+export interface RetryDefinition {
+  attempts?: number;
+  backoff?: number;
+}
+
+/**
+ * Serializable container configuration: `ContainerConfig` plus where the image comes from
+ */
+export type ContainerDefinition = Omit<ContainerConfig, "image" | "waitStrategy" | "retry"> & {
+  /**
+   * Image to run; exactly one of `image` and `dockerfile` is required
+   */
+  image?: string;
+  dockerfile?: DockerfileConfig;
+  waitStrategy?: WaitStrategyDefinition;
+  retry?: RetryDefinition;
+};
+
+/**
+ * Serializable compose configuration: `ComposeConfig` plus the compose file location
+ */
+export type ComposeDefinition = Omit<ComposeConfig, "waitStrategy" | "serviceWaits" | "retry"> & {
+  /**
+   * Directory holding the compose file
+   */
+  path: string;
+  /**
+   * Compose file name (default: docker-compose.yml)
+   */
+  file?: string;
+  waitStrategy?: WaitStrategyDefinition;
+  serviceWaits?: Record<
+    string,
+    Omit<ComposeServiceWait, "waitStrategy"> & { waitStrategy?: WaitStrategyDefinition }
+  >;
+  retry?: RetryDefinition;
+};
+
+export type EnvironmentDefinition =
+  | { container: ContainerDefinition }
+  | { compose: ComposeDefinition };
+
+export interface LoadEnvironmentOptions {
+  /**
+   * Directory relative paths are resolved against (default: the working directory,
+   * or the file's directory for `loadEnvironment()`)
+   */
+  baseDir?: string;
+  /**
+   * Variables available to `${VAR}` interpolation (default: `process.env`)
+   */
+  env?: Record<string, string | undefined>;
+}
+
+// ============================================
+// Schema
+// ============================================
+
+interface CheckContext {
+  issues: ValidationIssue[];
+  env: Record<string, string | undefined>;
+}
+
+/**
+ * Check a value at a JSON path and return it normalized, or `undefined` after recording issues
+ */
+type Check = (value: unknown, at: string, context: CheckContext) => unknown;
+
+type Shape = Record<string, { check: Check; required?: boolean }>;
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const VARIABLE = /\$\$|\$\{([A-Za-z_][A-Za-z0-9_]*)(?:(:?-)([^}]*))?\}/g;
+
+function key(at: string, name: string): string {
+  return IDENTIFIER.test(name) ? `${at}.${name}` : `${at}[${JSON.stringify(name)}]`;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function fail(context: CheckContext, field: string, value: unknown, constraint: string): undefined {
+  context.issues.push({ field, value, constraint });
+  return undefined;
+}
+
+/**
+ * Replace `${VAR}`, `${VAR:-default}` and `${VAR-default}`; `$$` is a literal `$`
+ */
+function interpolate(value: string, at: string, context: CheckContext): string {
+  return value.replace(VARIABLE, (match, name?: string, operator?: string, fallback?: string) => {
+    if (!name) return "$";
+
+    const current = context.env[name];
+    if (operator === ":-" && !current) return fallback ?? "";
+    if (operator === "-" && current === undefined) return fallback ?? "";
+    if (current === undefined) {
+      fail(context, at, match, `references ${name}, which is not set`);
+      return "";
+    }
+    return current;
+  });
+}
+
+function string(): Check {
+  return (value, at, context) =>
+    typeof value === "string"
+      ? interpolate(value, at, context)
+      : fail(context, at, value, `must be a string, got ${describeType(value)}`);
+}
+
+function number(options: { integer?: boolean } = {}): Check {
+  const expected = options.integer ? "an integer" : "a number";
+
+  return (value, at, context) => {
+    // Interpolated values arrive as strings
+    const candidate =
+      typeof value === "string" && value.trim() !== ""
+        ? Number(interpolate(value, at, context))
+        : value;
+
+    if (typeof candidate !== "number" || !Number.isFinite(candidate)) {
+      return fail(context, at, value, `must be ${expected}`);
+    }
+    if (options.integer && !Number.isInteger(candidate)) {
+      return fail(context, at, value, `must be ${expected}`);
+    }
+    return candidate;
+  };
+}
+
+function boolean(): Check {
+  return (value, at, context) => {
+    const candidate = typeof value === "string" ? interpolate(value, at, context) : value;
+
+    if (candidate === true || candidate === "true") return true;
+    if (candidate === false || candidate === "false") return false;
+    return fail(context, at, value, "must be true or false");
+  };
+}
+
+function oneOf(...values: string[]): Check {
+  return (value, at, context) => {
+    const candidate = string()(value, at, context);
+    if (candidate === undefined) return undefined;
+
+    return values.includes(candidate as string)
+      ? candidate
+      : fail(context, at, value, `must be one of ${values.join(", ")}`);
+  };
+}
+
+function anyOf(first: Check, second: Check, constraint: string): Check {
+  return (value, at, context) => {
+    for (const check of [first, second]) {
+      const attempt: CheckContext = { issues: [], env: context.env };
+      const result = check(value, at, attempt);
+      if (attempt.issues.length === 0) return result;
+    }
+    return fail(context, at, value, constraint);
+  };
+}
+
+function arrayOf(item: Check): Check {
+  return (value, at, context) => {
+    if (!Array.isArray(value)) {
+      return fail(context, at, value, `must be an array, got ${describeType(value)}`);
+    }
+    return value.map((entry, index) => item(entry, `${at}[${index}]`, context));
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function recordOf(entry: Check): Check {
+  return (value, at, context) => {
+    if (!isRecord(value)) {
+      return fail(context, at, value, `must be an object, got ${describeType(value)}`);
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([name, item]) => [name, entry(item, key(at, name), context)]),
+    );
+  };
+}
+
+function object(shape: Shape): Check {
+  return (value, at, context) => {
+    if (!isRecord(value)) {
+      return fail(context, at, value, `must be an object, got ${describeType(value)}`);
+    }
+
+    const result: Record<string, unknown> = {};
+
+    for (const [name, field] of Object.entries(shape)) {
+      if (value[name] === undefined) {
+        if (field.required) fail(context, key(at, name), undefined, "is required");
+        continue;
+      }
+      result[name] = field.check(value[name], key(at, name), context);
+    }
+
+    for (const name of Object.keys(value)) {
+      if (!(name in shape)) {
+        fail(
+          context,
+          key(at, name),
+          value[name],
+          `is not a known setting (expected one of ${Object.keys(shape).join(", ")})`,
+        );
+      }
+    }
+
+    return result;
+  };
+}
+
+function optional(check: Check) {
+  return { check };
+}
+
+function required(check: Check) {
+  return { check, required: true };
+}
+
+const WAIT_SHAPES: Record<WaitStrategyDefinition["type"], Shape> = {
+  ports: {},
+  log: {
+    message: required(string()),
+    regex: optional(boolean()),
+    times: optional(number({ integer: true })),
+  },
+  http: {
+    path: required(string()),
+    port: required(number({ integer: true })),
+    status: optional(number({ integer: true })),
+  },
+  healthcheck: {},
+  command: { command: required(string()) },
+  oneShot: {},
+};
+
+const waitStrategy: Check = (value, at, context) => {
+  if (!isRecord(value)) {
+    return fail(context, at, value, `must be an object, got ${describeType(value)}`);
+  }
+
+  const type = oneOf(...Object.keys(WAIT_SHAPES))(value.type, `${at}.type`, context);
+  if (type === undefined) return undefined;
+
+  return object({
+    type: required(string()),
+    timeout: optional(number({ integer: true })),
+    ...WAIT_SHAPES[type as WaitStrategyDefinition["type"]],
+  })(value, at, context);
+};
+
+const fileConfig = object({
+  source: required(string()),
+  target: required(string()),
+  mode: optional(number({ integer: true })),
+});
+
+const retry = object({
+  attempts: optional(number({ integer: true })),
+  backoff: optional(number()),
+});
+
+const preflight = anyOf(
+  boolean(),
+  object({ timeout: optional(number()), minFreeDisk: optional(number()) }),
+  "must be true, false or an object with timeout and minFreeDisk",
+);
+
+const pullPolicy = oneOf("always", "alwaysPull", "ifNotPresent", "never");
+
+const containerSchema = object({
+  image: optional(string()),
+  dockerfile: optional(
+    object({
+      dockerfile: required(string()),
+      context: optional(string()),
+      buildArgs: optional(recordOf(string())),
+      target: optional(string()),
+      tag: optional(string()),
+      platform: optional(string()),
+      deleteOnExit: optional(boolean()),
+    }),
+  ),
+  command: optional(arrayOf(string())),
+  entrypoint: optional(arrayOf(string())),
+  env: optional(recordOf(string())),
+  platform: optional(string()),
+  workingDir: optional(string()),
+  user: optional(string()),
+  labels: optional(recordOf(string())),
+  privileged: optional(boolean()),
+  resources: optional(object({ memory: optional(number()), cpu: optional(number()) })),
+  ulimits: optional(
+    recordOf(
+      object({
+        soft: required(number({ integer: true })),
+        hard: required(number({ integer: true })),
+      }),
+    ),
+  ),
+  sharedMemorySize: optional(number({ integer: true })),
+  capabilities: optional(
+    object({ add: optional(arrayOf(string())), drop: optional(arrayOf(string())) }),
+  ),
+  tmpFs: optional(recordOf(string())),
+  copyFiles: optional(arrayOf(fileConfig)),
+  copyDirectories: optional(arrayOf(fileConfig)),
+  copyContent: optional(
+    arrayOf(
+      object({
+        content: required(string()),
+        target: required(string()),
+        mode: optional(number({ integer: true })),
+      }),
+    ),
+  ),
+  network: optional(string()),
+  exposedPorts: optional(
+    arrayOf(
+      anyOf(
+        number({ integer: true }),
+        object({
+          container: required(number({ integer: true })),
+          host: required(number({ integer: true })),
+        }),
+        "must be a port number or { container, host }",
+      ),
+    ),
+  ),
+  networkMode: optional(string()),
+  networkAliases: optional(arrayOf(string())),
+  extraHosts: optional(
+    arrayOf(object({ host: required(string()), ipAddress: required(string()) })),
+  ),
+  ipcMode: optional(string()),
+  exposedHostPorts: optional(arrayOf(number({ integer: true }))),
+  waitStrategy: optional(waitStrategy),
+  pullPolicy: optional(pullPolicy),
+  reuse: optional(boolean()),
+  defaultLogDriver: optional(boolean()),
+  logBufferSize: optional(number({ integer: true })),
+  retry: optional(retry),
+  preflight: optional(preflight),
+});
+
+const composeSchema = object({
+  path: required(string()),
+  file: optional(string()),
+  env: optional(recordOf(string())),
+  envFile: optional(string()),
+  pullPolicy: optional(pullPolicy),
+  build: optional(boolean()),
+  profiles: optional(arrayOf(string())),
+  projectName: optional(string()),
+  noRecreate: optional(boolean()),
+  waitStrategy: optional(waitStrategy),
+  serviceWaits: optional(
+    recordOf(
+      object({
+        waitStrategy: optional(waitStrategy),
+        startupTimeout: optional(number({ integer: true })),
+      }),
+    ),
+  ),
+  down: optional(
+    object({
+      timeout: optional(number({ integer: true })),
+      removeVolumes: optional(boolean()),
+      removeOrphans: optional(boolean()),
+      removeImages: optional(oneOf("all", "local")),
+    }),
+  ),
+  exposedHostPorts: optional(arrayOf(number({ integer: true }))),
+  retry: optional(retry),
+  preflight: optional(preflight),
+});
+
+const environmentSchema = object({
+  container: optional(containerSchema),
+  compose: optional(composeSchema),
+});
+
+/**
+ * Check a definition against the schema and the container rules in `validateContainerConfig()`,
+ * interpolating variables along the way
+ *
+ * Every problem is reported in one `ValidationError`, with `field` as a JSON path
+ * such as `$.container.exposedPorts[0]`.
+ */
+export function parseEnvironmentDefinition(
+  input: unknown,
+  options: LoadEnvironmentOptions & { source?: string } = {},
+): EnvironmentDefinition {
+  const context: CheckContext = { issues: [], env: options.env ?? process.env };
+  const definition = environmentSchema(input, "$", context) as
+    | Partial<{ container: ContainerDefinition; compose: ComposeDefinition }>
+    | undefined;
+
+  if (definition) {
+    const kinds = (["container", "compose"] as const).filter((kind) => kind in definition);
+    if (kinds.length !== 1) {
+      fail(context, "$", kinds, "must define exactly one of container or compose");
+    }
+
+    const container = definition.container;
+    if (container && (container.image === undefined) === (container.dockerfile === undefined)) {
+      fail(context, "$.container", undefined, "must set exactly one of image or dockerfile");
+    }
+
+    // Semantic rules only make sense once every value has the right type
+    if (container && context.issues.length === 0) {
+      const { waitStrategy: _wait, ...config } = container;
+      for (const issue of validateContainerConfig(config)) {
+        context.issues.push({ ...issue, field: `$.container.${issue.field}` });
+      }
+    }
+  }
+
+  if (context.issues.length > 0) {
+    throw createValidationError(options.source ?? "environment definition", context.issues);
+  }
+
+  return definition as EnvironmentDefinition;
+}
+
+// ============================================
+// Builders
+// ============================================
+
+function toContainerConfig(definition: ContainerDefinition, baseDir: string): ContainerConfig {
+  const { image: _image, dockerfile: _dockerfile, waitStrategy, ...config } = definition;
+  const resolveSource = (file: { source: string; target: string; mode?: number }) => ({
+    ...file,
+    source: path.resolve(baseDir, file.source),
+  });
+
+  return {
+    ...config,
+    copyFiles: config.copyFiles?.map(resolveSource),
+    copyDirectories: config.copyDirectories?.map(resolveSource),
+    waitStrategy: waitStrategy && createWaitStrategy(waitStrategy),
+  };
+}
+
+function toComposeConfig(definition: ComposeDefinition, baseDir: string): ComposeConfig {
+  const { path: _path, file: _file, waitStrategy, serviceWaits, ...config } = definition;
+
+  return {
+    ...config,
+    envFile: config.envFile && path.resolve(baseDir, config.envFile),
+    waitStrategy: waitStrategy && createWaitStrategy(waitStrategy),
+    serviceWaits:
+      serviceWaits &&
+      Object.fromEntries(
+        Object.entries(serviceWaits).map(([service, wait]) => [
+          service,
+          { ...wait, waitStrategy: wait.waitStrategy && createWaitStrategy(wait.waitStrategy) },
+        ]),
+      ),
+  };
+}
+
+// `withConfig()` copies keys as they are, so unset ones must not override builder defaults
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+}
+
+/**
+ * Create a builder from a declarative definition
+ *
+ * The definition mirrors `ContainerConfig`, `DockerfileConfig` and `ComposeConfig`, with
+ * wait strategies written as `WaitStrategyDefinition`. Strings may use `${VAR}`,
+ * `${VAR:-default}` and `${VAR-default}`. The result is the same builder `useContainer()`,
+ * `useDockerfile()` or `useCompose()` returns, so it can be customized further before `start()`.
+ *
+ * @example
+ * ```typescript
+ * const redis = await fromConfig({
+ *   container: {
+ *     image: 'redis:${REDIS_VERSION:-7}',
+ *     exposedPorts: [6379],
+ *     waitStrategy: { type: 'log', message: 'Ready to accept connections' },
+ *   },
+ * });
+ * const { host, ports, cleanup } = await redis.start();
+ * ```
+ */
+export async function fromConfig(
+  definition: { container: ContainerDefinition },
+  options?: LoadEnvironmentOptions,
+): Promise<StandaloneContainer>;
+export async function fromConfig<T extends Record<string, any>>(
+  definition: { compose: ComposeDefinition },
+  options?: LoadEnvironmentOptions,
+): Promise<ComposeEnvironment<T>>;
+export async function fromConfig<T extends Record<string, any>>(
+  definition: unknown,
+  options?: LoadEnvironmentOptions & { source?: string },
+): Promise<StandaloneContainer | ComposeEnvironment<T>>;
+export async function fromConfig<T extends Record<string, any>>(
+  input: unknown,
+  options: LoadEnvironmentOptions & { source?: string } = {},
+): Promise<StandaloneContainer | ComposeEnvironment<T>> {
+  const definition = parseEnvironmentDefinition(input, options);
+  const baseDir = path.resolve(options.baseDir ?? ".");
+
+  if ("compose" in definition) {
+    const { compose } = definition;
+    return useCompose<T>(path.resolve(baseDir, compose.path), compose.file).withConfig(
+      withoutUndefined(toComposeConfig(compose, baseDir)),
+    );
+  }
+
+  const { container } = definition;
+  const builder = container.dockerfile
+    ? await StandaloneContainer.fromDockerfile({
+        ...container.dockerfile,
+        context: path.resolve(baseDir, container.dockerfile.context ?? "."),
+      })
+    : useContainer(container.image as string);
+
+  return builder.withConfig(withoutUndefined(toContainerConfig(container, baseDir)));
+}
+
+/**
+ * Read a JSON or YAML definition file and create its builder with `fromConfig()`
+ *
+ * Files ending in `.json` are parsed as JSON, anything else as YAML. Relative paths
+ * inside the file are resolved against the file's directory.
+ *
+ * @example
+ * ```typescript
+ * const environment = await loadEnvironment('./environments/postgres.yaml');
+ * const { cleanup } = await environment.start();
+ * ```
+ */
+export async function loadEnvironment<T extends Record<string, any>>(
+  filePath: string,
+  options: LoadEnvironmentOptions = {},
+): Promise<StandaloneContainer | ComposeEnvironment<T>> {
+  const resolved = path.resolve(filePath);
+
+  let content: string;
+  try {
+    content = await readFile(resolved, "utf-8");
+  } catch (error) {
+    throw new FileNotFoundError({
+      message: `Environment file not found: '${resolved}'`,
+      cause: {
+        path: resolved,
+        hostPath: resolved,
+        operation: "read",
+      },
+      parent: error instanceof Error ? error : undefined,
+    });
+  }
+
+  let input: unknown;
+  try {
+    input = resolved.endsWith(".json") ? JSON.parse(content) : parse(content);
+  } catch (error) {
+    throw createValidationError(resolved, [
+      {
+        field: "$",
+        value: undefined,
+        constraint: `must be valid ${resolved.endsWith(".json") ? "JSON" : "YAML"}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      },
+    ]);
+  }
+
+  return await fromConfig<T>(input, {
+    ...options,
+    baseDir: options.baseDir ?? path.dirname(resolved),
+    source: resolved,
+  });
+}
@@ -0,0 +1,276 @@
+import { PassThrough, type Readable } from "node:stream";
+import { type StartedTestContainer, getContainerRuntimeClient } from "testcontainers";
+import { CommandNotFoundError, ExecutionError, ExecutionTimeoutError } from "~/errors";
+import { classifyError } from "./classify";
+import { getLogger } from "./logger";
+
+export interface ExecOptions {
+  user?: string;
+  workingDir?: string;
+  env?: Record<string, string>;
+  /**
+   * Kill the command and throw `ExecutionTimeoutError` after this many ms.
+   * Needs `sh` and `kill` in the image.
+   */
+  timeout?: number;
+  /**
+   * Throw `ExecutionError` when the command exits non-zero; exit code 127 throws
+   * `CommandNotFoundError` with or without it
+   */
+  strict?: boolean;
+  /**
+   * Fed to the command's stdin, which is closed once it has all been written
+   */
+  stdin?: string | Buffer | Readable;
+  /**
+   * Allocate a pseudo-terminal; stdout and stderr then both arrive as stdout
+   */
+  tty?: boolean;
+}
+
+export interface ExecResponse {
+  output: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+export interface ExecChunk {
+  source: "stdout" | "stderr";
+  text: string;
+}
+
+/**
+ * Output chunks of a running command, in the order they arrive
+ *
+ * Iteration ends when the command exits, throwing what `exec()` would have thrown.
+ */
+export interface ExecStream extends AsyncIterable<ExecChunk> {
+  /**
+   * Resolves once the command exits, with everything it wrote
+   */
+  result: Promise<ExecResponse>;
+}
+
+// Prints the shell's pid, which the command then takes over, so a timeout knows what to kill
+const PID_WRAPPER = ["sh", "-c", 'echo "$$" >&2; exec "$@"', "sh"];
+
+const log = getLogger("exec");
+
+/**
+ * Fail clearly when the image has no `sh` for the timeout wrapper, as distroless and scratch images don't
+ */
+async function assertShell(instance: StartedTestContainer, containerName: string): Promise<void> {
+  const { exitCode } = await instance.exec(["sh", "-c", "exit 0"]);
+  if (exitCode === 0) return;
+
+  throw new CommandNotFoundError({
+    message: `Command timeouts need 'sh' in '${containerName}', which it does not have`,
+    cause: {
+      containerName,
+      containerId: instance.getId(),
+      operation: "exec",
+      command: "sh",
+      exitCode,
+      suggestion: "Drop the timeout, or use an image that includes a shell",
+    },
+  });
+}
+
+/**
+ * Run a command in a container, collecting its output and handing each chunk to `onChunk`
+ */
+export async function runExec(
+  instance: StartedTestContainer,
+  command: string[],
+  options: ExecOptions,
+  containerName: string,
+  onChunk?: (chunk: ExecChunk) => void,
+): Promise<ExecResponse> {
+  const { timeout, strict = false, stdin, tty = false } = options;
+  const context = {
+    containerName,
+    containerId: instance.getId(),
+    operation: "exec",
+    command,
+  };
+
+  const output: string[] = [];
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+
+  // With a tty, stderr (and so the pid line) comes through stdout
+  const pidSource: ExecChunk["source"] = tty ? "stdout" : "stderr";
+  let pidLine: string | null = timeout === undefined ? null : "";
+  let pid: string | undefined;
+
+  const receive = (source: ExecChunk["source"]) => (chunk: string) => {
+    let text = chunk;
+
+    if (pidLine !== null && source === pidSource) {
+      pidLine += text;
+      const newline = pidLine.indexOf("\n");
+      if (newline === -1) return;
+
+      pid = pidLine.slice(0, newline).trim();
+      text = pidLine.slice(newline + 1);
+      pidLine = null;
+      if (!text) return;
+    }
+
+    output.push(text);
+    (source === "stdout" ? stdout : stderr).push(text);
+    onChunk?.({ source, text });
+  };
+
+  const collected = (exitCode: number) => ({
+    exitCode,
+    stdout: stdout.join(""),
+    stderr: stderr.join(""),
+  });
+
+  let timer: NodeJS.Timeout | undefined;
+  let timedOut = false;
+
+  try {
+    if (timeout !== undefined) {
+      await assertShell(instance, containerName);
+    }
+
+    const client = await getContainerRuntimeClient();
+    const container = client.container.dockerode.getContainer(instance.getId());
+
+    const execution = await container.exec({
+      Cmd: timeout === undefined ? command : [...PID_WRAPPER, ...command],
+      AttachStdin: stdin !== undefined,
+      AttachStdout: true,
+      AttachStderr: true,
+      Tty: tty,
+      Env: options.env && Object.entries(options.env).map(([key, value]) => `${key}=${value}`),
+      WorkingDir: options.workingDir,
+      User: options.user,
+    });
+    const stream = await execution.start({ hijack: true, stdin: stdin !== undefined, Tty: tty });
+
+    if (tty) {
+      stream.setEncoding("utf-8").on("data", receive("stdout"));
+    } else {
+      const out = new PassThrough().setEncoding("utf-8").on("data", receive("stdout"));
+      const err = new PassThrough().setEncoding("utf-8").on("data", receive("stderr"));
+      client.container.dockerode.modem.demuxStream(stream, out, err);
+    }
+
+    if (typeof stdin === "string" || Buffer.isBuffer(stdin)) {
+      stream.end(stdin);
+    } else if (stdin) {
+      stdin.pipe(stream);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      stream.on("end", resolve);
+      stream.on("close", resolve);
+      stream.on("error", reject);
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          timedOut = true;
+          resolve();
+        }, timeout);
+      }
+    });
+    stream.destroy();
+
+    if (timedOut) {
+      // Docker can't kill an exec, so the pid printed by the wrapper is killed from inside
+      try {
+        const killed = await instance.exec(["kill", "-KILL", pid ?? ""]);
+        if (killed.exitCode !== 0) throw new Error(killed.output || "no pid was reported");
+      } catch (error) {
+        log.warn("Failed to kill timed out command", {
+          container: containerName,
+          command,
+          pid,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      throw new ExecutionTimeoutError({
+        message: `Command timed out after ${timeout}ms in '${containerName}': ${command.join(" ")}`,
+        cause: { ...context, ...collected(-1), timeoutMs: timeout ?? 0 },
+      });
+    }
+
+    const { ExitCode } = await execution.inspect();
+    const exitCode = ExitCode ?? -1;
+    const response: ExecResponse = { output: output.join(""), ...collected(exitCode) };
+
+    // 127 is the shell's and Docker's "command not found", whether or not strict is set
+    if (exitCode === 127 || (strict && exitCode !== 0)) {
+      const failure = new Error(response.stderr || response.output);
+      throw (
+        (exitCode === 127 ? classifyError(failure, { ...context, exitCode }) : null) ??
+        new ExecutionError({
+          message: `Command exited with ${exitCode} in '${containerName}': ${command.join(" ")}`,
+          cause: { ...context, ...collected(exitCode) },
+          parent: failure,
+        })
+      );
+    }
+
+    return response;
+  } catch (error) {
+    throw (
+      classifyError(error, context) ??
+      new ExecutionError({
+        message: `Failed to execute command in container: ${command.join(" ")}`,
+        cause: { ...context, ...collected((error as { exitCode?: number })?.exitCode ?? -1) },
+        parent: error instanceof Error ? error : undefined,
+      })
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run a command in a container, yielding its output as it arrives
+ */
+export function streamExec(
+  instance: StartedTestContainer,
+  command: string[],
+  options: ExecOptions,
+  containerName: string,
+): ExecStream {
+  const chunks: ExecChunk[] = [];
+  let finished = false;
+  let wake: (() => void) | null = null;
+
+  const result = runExec(instance, command, options, containerName, (chunk) => {
+    chunks.push(chunk);
+    wake?.();
+  }).finally(() => {
+    finished = true;
+    wake?.();
+  });
+  // Failures surface through iteration; this only keeps them from going unhandled
+  result.catch(() => {});
+
+  return {
+    result,
+    async *[Symbol.asyncIterator]() {
+      for (;;) {
+        for (let chunk = chunks.shift(); chunk; chunk = chunks.shift()) {
+          yield chunk;
+        }
+        if (finished) {
+          await result;
+          return;
+        }
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+        wake = null;
+      }
+    },
+  };
+}
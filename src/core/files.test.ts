@@ -0,0 +1,293 @@
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import { lstat, mkdtemp, readFile, readlink, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { type Header, pack } from "tar-stream";
+import type { StartedTestContainer } from "testcontainers";
+import { FileNotFoundError, FileSystemError } from "~/errors";
+import { copyFromContainer, listContainerDir, readContainerFile } from "./files";
+
+type Entry = Partial<Header> & { name: string; content?: string };
+
+function archive(entries: Entry[]): NodeJS.ReadableStream {
+  const tar = pack();
+  for (const { content, ...header } of entries) {
+    tar.entry(
+      { type: content === undefined ? "directory" : "file", mode: 0o644, ...header },
+      content ?? "",
+    );
+  }
+  tar.finalize();
+  return tar as unknown as NodeJS.ReadableStream;
+}
+
+// A container whose paths hold the given archives; anything else is missing like in Docker.
+// Without a shell result its exec fails like an image that has none.
+function fakeContainer(
+  archives: Record<string, Entry[]>,
+  shell: { exitCode: number; stdout?: string } = { exitCode: 127 },
+): StartedTestContainer {
+  return {
+    exec: async () => ({ output: "", stderr: "", stdout: "", ...shell }),
+    copyArchiveFromContainer: async (containerPath: string) => {
+      const entries = archives[containerPath];
+      if (!entries) {
+        throw Object.assign(new Error(`Could not find the file ${containerPath} in container`), {
+          statusCode: 404,
+        });
+      }
+      return archive(entries);
+    },
+  } as unknown as StartedTestContainer;
+}
+
+const LONG_NAME = `${"n".repeat(150)}.log`;
+
+const logs: Entry[] = [
+  { name: "logs", mode: 0o755 },
+  { name: "logs/app.log", content: "started\n" },
+  { name: `logs/${LONG_NAME}`, content: "long\n" },
+  { name: "logs/current", type: "symlink", linkname: "app.log" },
+  { name: "logs/archive", mode: 0o755 },
+  { name: "logs/archive/old.log", content: "old\n" },
+];
+
+describe("listContainerDir", () => {
+  it("lists direct children with long names, sorted", async () => {
+    const entries = await listContainerDir(
+      fakeContainer({ "/var/logs": logs }),
+      "/var/logs",
+      "app",
+    );
+
+    assert.deepEqual(
+      entries.map((entry) => [entry.name, entry.type]),
+      [
+        ["app.log", "file"],
+        ["archive", "directory"],
+        ["current", "symlink"],
+        [LONG_NAME, "file"],
+      ],
+    );
+    assert.equal(entries[0].path, "/var/logs/app.log");
+    assert.equal(entries[0].size, 8);
+    assert.equal(entries[2].linkTarget, "app.log");
+  });
+
+  it("reads PAX path overrides and modification times", async () => {
+    const container = fakeContainer({
+      "/data": [
+        { name: "data", mode: 0o755 },
+        {
+          name: "data/short",
+          content: "x",
+          mtime: new Date(1_700_000_000_000),
+          pax: { path: "data/from-pax" },
+        },
+      ],
+    });
+    const [entry] = await listContainerDir(container, "/data", "app");
+
+    assert.equal(entry.name, "from-pax");
+    assert.equal(entry.modifiedAt.getTime(), 1_700_000_000_000);
+  });
+
+  it("rejects files", async () => {
+    const container = fakeContainer({ "/etc/hosts": [{ name: "hosts", content: "" }] });
+    await assert.rejects(listContainerDir(container, "/etc/hosts", "app"), FileSystemError);
+  });
+
+  describe("with a shell in the container", () => {
+    const stdout = [
+      "L/current/archive/app.log",
+      "81a4/8/1700000000/app.log",
+      "41ed/4096/1700000000/archive",
+      "a1ff/15/1700000000/current",
+    ].join("\n");
+
+    it("lists one level with stat instead of reading the archive", async () => {
+      // No archives: reading one would fail
+      const entries = await listContainerDir(
+        fakeContainer({}, { exitCode: 0, stdout }),
+        "/var/logs",
+        "app",
+      );
+
+      assert.deepEqual(entries, [
+        {
+          name: "app.log",
+          path: "/var/logs/app.log",
+          type: "file",
+          size: 8,
+          mode: 0o644,
+          modifiedAt: new Date(1_700_000_000_000),
+        },
+        {
+          name: "archive",
+          path: "/var/logs/archive",
+          type: "directory",
+          size: 4096,
+          mode: 0o755,
+          modifiedAt: new Date(1_700_000_000_000),
+        },
+        {
+          name: "current",
+          path: "/var/logs/current",
+          type: "symlink",
+          size: 15,
+          mode: 0o777,
+          modifiedAt: new Date(1_700_000_000_000),
+          linkTarget: "archive/app.log",
+        },
+      ]);
+    });
+
+    it("maps a missing path and a file to errors", async () => {
+      await assert.rejects(
+        listContainerDir(fakeContainer({}, { exitCode: 2 }), "/missing", "app"),
+        FileNotFoundError,
+      );
+      await assert.rejects(
+        listContainerDir(fakeContainer({}, { exitCode: 3 }), "/etc/hosts", "app"),
+        (error) => error instanceof FileSystemError && !(error instanceof FileNotFoundError),
+      );
+    });
+  });
+});
+
+describe("readContainerFile", () => {
+  it("follows symlinks", async () => {
+    const container = fakeContainer({
+      "/var/logs/current": [{ name: "current", type: "symlink", linkname: "app.log" }],
+      "/var/logs/app.log": [{ name: "app.log", content: "started\n" }],
+    });
+    const content = await readContainerFile(container, "/var/logs/current", "app");
+
+    assert.equal(content.toString(), "started\n");
+  });
+
+  it("maps a missing path to FileNotFoundError", async () => {
+    await assert.rejects(readContainerFile(fakeContainer({}), "/missing", "app"), (error) => {
+      assert.ok(error instanceof FileNotFoundError);
+      assert.equal((error as { containerPath?: string }).containerPath, "/missing");
+      return true;
+    });
+  });
+});
+
+describe("copyFromContainer", () => {
+  let root: string;
+
+  before(async () => {
+    root = await mkdtemp(path.join(tmpdir(), "dockhand-files-test-"));
+  });
+
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("copies a directory tree", async () => {
+    const destination = path.join(root, "tree");
+    await copyFromContainer(fakeContainer({ "/var/logs": logs }), "/var/logs", destination, "app");
+
+    assert.equal(await readFile(path.join(destination, "app.log"), "utf-8"), "started\n");
+    assert.equal(await readFile(path.join(destination, LONG_NAME), "utf-8"), "long\n");
+    assert.equal(await readFile(path.join(destination, "archive/old.log"), "utf-8"), "old\n");
+    assert.equal(await readlink(path.join(destination, "current")), "app.log");
+  });
+
+  it("refuses entries named outside the destination", async () => {
+    const destination = path.join(root, "dotdot");
+    const container = fakeContainer({
+      "/logs": [{ name: "logs" }, { name: "logs/../../escaped", content: "x" }],
+    });
+
+    await assert.rejects(
+      copyFromContainer(container, "/logs", destination, "app"),
+      FileSystemError,
+    );
+    assert.equal(existsSync(path.resolve(destination, "../../escaped")), false);
+  });
+
+  it("refuses hardlinks to files outside the destination", async () => {
+    const destination = path.join(root, "hardlink");
+    const outside = path.join(root, "hardlink-secret");
+    await writeFile(outside, "secret");
+    const container = fakeContainer({
+      "/logs": [
+        { name: "logs" },
+        { name: "logs/stolen", type: "link", linkname: "logs/../hardlink-secret" },
+      ],
+    });
+
+    await assert.rejects(
+      copyFromContainer(container, "/logs", destination, "app"),
+      FileSystemError,
+    );
+    assert.equal(existsSync(path.join(destination, "stolen")), false);
+  });
+
+  it("skips symlinks pointing outside, so later entries can't walk through them", async () => {
+    const destination = path.join(root, "through-link");
+    const outside = path.join(root, "through-link-target");
+    const container = fakeContainer({
+      "/logs": [
+        { name: "logs" },
+        { name: "logs/escape", type: "symlink", linkname: outside },
+        { name: "logs/escape/passwd", content: "x" },
+      ],
+    });
+
+    await copyFromContainer(container, "/logs", destination, "app");
+
+    assert.equal((await lstat(path.join(destination, "escape"))).isDirectory(), true);
+    assert.equal(await readFile(path.join(destination, "escape/passwd"), "utf-8"), "x");
+    assert.equal(existsSync(path.join(outside, "passwd")), false);
+  });
+
+  it("refuses entries below a symlinked directory already at the destination", async () => {
+    const destination = path.join(root, "existing-link");
+    const outside = path.join(root, "existing-link-target");
+    await copyFromContainer(
+      fakeContainer({ "/logs": [{ name: "logs" }] }),
+      "/logs",
+      destination,
+      "app",
+    );
+    await symlink(root, path.join(destination, "sub"));
+
+    const container = fakeContainer({
+      "/logs": [{ name: "logs" }, { name: "logs/sub/existing-link-target", content: "x" }],
+    });
+
+    await assert.rejects(
+      copyFromContainer(container, "/logs", destination, "app"),
+      FileSystemError,
+    );
+    assert.equal(existsSync(outside), false);
+  });
+
+  it("replaces a link at a file's path instead of writing through it", async () => {
+    const destination = path.join(root, "replace");
+    const outside = path.join(root, "replace-target");
+    await writeFile(outside, "untouched");
+    await copyFromContainer(
+      fakeContainer({ "/logs": [{ name: "logs" }] }),
+      "/logs",
+      destination,
+      "app",
+    );
+    await symlink(outside, path.join(destination, "app.log"));
+
+    const container = fakeContainer({
+      "/logs": [{ name: "logs" }, { name: "logs/app.log", content: "new" }],
+    });
+    await copyFromContainer(container, "/logs", destination, "app");
+
+    assert.equal(await readFile(outside, "utf-8"), "untouched");
+    assert.equal((await lstat(path.join(destination, "app.log"))).isSymbolicLink(), false);
+    assert.equal(await readFile(path.join(destination, "app.log"), "utf-8"), "new");
+  });
+});
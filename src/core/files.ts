@@ -0,0 +1,572 @@
+import { createWriteStream } from "node:fs";
+import { link, lstat, mkdir, realpath, rm, stat, symlink } from "node:fs/promises";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { type Header, extract } from "tar-stream";
+import type { StartedTestContainer } from "testcontainers";
+import { FileNotFoundError, FilePermissionError, FileSystemError, isError } from "~/errors";
+import { getLogger } from "./logger";
+
+/**
+ * A file, directory or link inside a container, as listed by `listDir()`
+ */
+export interface ContainerFileEntry {
+  name: string;
+  /**
+   * Absolute path inside the container
+   */
+  path: string;
+  type: "file" | "directory" | "symlink" | "other";
+  size: number;
+  /**
+   * Permission bits, e.g. `0o644`
+   */
+  mode: number;
+  modifiedAt: Date;
+  linkTarget?: string;
+}
+
+type FileOperation = "read" | "write" | "copy";
+
+const MAX_SYMLINK_HOPS = 8;
+
+const NOT_FOUND = /no such file|could not find the file|not found/i;
+const DENIED = /permission denied|read-only file system|marked read-only|operation not permitted/i;
+
+const log = getLogger("files");
+
+/**
+ * Lists one directory level as `<hex mode>/<size>/<mtime>/<name>` lines, with a
+ * `L/<name>/<target>` line per symlink; names can't contain `/`, so it separates fields.
+ * Exits 2 when the path is missing, 3 when it isn't a directory and 127 without the tools.
+ */
+const LIST_SCRIPT = `
+command -v stat >/dev/null && command -v readlink >/dev/null || exit 127
+[ -e "$1" ] || [ -L "$1" ] || exit 2
+[ -d "$1" ] && [ ! -L "$1" ] || exit 3
+cd -- "$1" || exit 4
+set -- * .[!.]* ..?*
+for name; do
+  if [ -L "$name" ]; then printf 'L/%s/%s\\n' "$name" "$(readlink -- "$name")"; fi
+done
+stat -c '%f/%s/%Y/%n' -- "$@" 2>/dev/null
+exit 0
+`;
+
+// The file type bits of a raw `st_mode`
+function toModeType(mode: number): ContainerFileEntry["type"] {
+  switch (mode & 0o170000) {
+    case 0o100000:
+      return "file";
+    case 0o040000:
+      return "directory";
+    case 0o120000:
+      return "symlink";
+    default:
+      return "other";
+  }
+}
+
+function toEntryType(header: Header): ContainerFileEntry["type"] | "hardlink" {
+  switch (header.type) {
+    case "file":
+    case "contiguous-file":
+      return "file";
+    case "link":
+      return "hardlink";
+    case "symlink":
+    case "directory":
+      return header.type;
+    default:
+      return "other";
+  }
+}
+
+/**
+ * Walk a tar stream, handing each entry's header and content to `visit`
+ *
+ * Content the visitor doesn't consume is skipped; returning `false` stops the walk early.
+ */
+async function readArchive(
+  stream: NodeJS.ReadableStream,
+  visit: (header: Header, content: AsyncIterable<Buffer>) => Promise<unknown>,
+): Promise<void> {
+  const extractor = extract();
+  stream.on("error", (error: Error) => extractor.destroy(error));
+  stream.pipe(extractor as unknown as NodeJS.WritableStream);
+
+  try {
+    for await (const entry of extractor) {
+      const proceed = await visit(entry.header, entry as AsyncIterable<Buffer>);
+      entry.resume();
+      if (proceed === false) break;
+    }
+  } finally {
+    (stream as Readable).destroy?.();
+  }
+}
+
+async function concat(chunks: AsyncIterable<Buffer>): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  for await (const chunk of chunks) parts.push(chunk);
+  return Buffer.concat(parts);
+}
+
+// Entries are named relative to the requested path's parent, e.g. `logs/app.log` for `/var/logs`
+function stripRoot(entryPath: string): string {
+  const trimmed = entryPath.replace(/^\.\//, "").replace(/\/+$/, "");
+  const slash = trimmed.indexOf("/");
+  return slash === -1 ? "" : trimmed.slice(slash + 1);
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+// Where a host path really leads: its deepest existing ancestor with links resolved, plus the rest
+async function resolveReal(target: string): Promise<string> {
+  let existing = target;
+  for (;;) {
+    try {
+      return path.join(await realpath(existing), path.relative(existing, target));
+    } catch (error) {
+      const parent = path.dirname(existing);
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT" || parent === existing) throw error;
+      existing = parent;
+    }
+  }
+}
+
+function toFileSystemError(
+  error: unknown,
+  context: {
+    containerName: string;
+    path: string;
+    operation: FileOperation;
+    side: "container" | "host";
+  },
+): Error {
+  const { containerName, path: filePath, operation, side } = context;
+  const { code, statusCode, message } = (error ?? {}) as {
+    code?: string;
+    statusCode?: number;
+    message?: string;
+  };
+  const reason = message ?? String(error);
+  const where = side === "container" ? `in container '${containerName}'` : "on the host";
+  const location = side === "container" ? { containerPath: filePath } : { hostPath: filePath };
+  const parent = error instanceof Error ? error : undefined;
+
+  if (code === "ENOENT" || statusCode === 404 || (side === "container" && NOT_FOUND.test(reason))) {
+    return new FileNotFoundError({
+      message: `No such file or directory ${where}: '${filePath}'`,
+      cause: { containerName, path: filePath, operation, ...location },
+      parent,
+    });
+  }
+
+  if (code === "EACCES" || code === "EPERM" || code === "EROFS" || DENIED.test(reason)) {
+    return new FilePermissionError({
+      message: `Permission denied ${where} to ${operation === "read" ? "read" : "write"} '${filePath}': ${reason}`,
+      cause: {
+        containerName,
+        path: filePath,
+        operation,
+        requiredPermission: operation === "read" ? "read" : "write",
+      },
+      parent,
+    });
+  }
+
+  return new FileSystemError({
+    message: `Failed to ${operation} '${filePath}' ${where}: ${reason}`,
+    cause: { containerName, path: filePath, operation },
+    parent,
+  });
+}
+
+/**
+ * Copy a host file or directory into a running container, creating missing parents
+ */
+export async function copyToContainer(
+  instance: StartedTestContainer,
+  hostPath: string,
+  containerPath: string,
+  containerName: string,
+): Promise<void> {
+  const source = path.resolve(hostPath);
+
+  let isDirectory: boolean;
+  try {
+    isDirectory = (await stat(source)).isDirectory();
+  } catch (error) {
+    throw toFileSystemError(error, {
+      containerName,
+      path: source,
+      operation: "copy",
+      side: "host",
+    });
+  }
+
+  try {
+    const target = [{ source, target: containerPath }];
+    if (isDirectory) {
+      await instance.copyDirectoriesToContainer(target);
+    } else {
+      await instance.copyFilesToContainer(target);
+    }
+    log.info("Copied into container", {
+      container: containerName,
+      from: source,
+      to: containerPath,
+    });
+  } catch (error) {
+    throw toFileSystemError(error, {
+      containerName,
+      path: containerPath,
+      operation: "copy",
+      side: "container",
+    });
+  }
+}
+
+/**
+ * Copy a file or directory out of a running container
+ *
+ * A file is written to `hostPath`; a directory's contents are written into `hostPath`,
+ * which is created if needed. Entries that would land outside `hostPath`, directly or
+ * through a link, are refused; symlinks pointing outside it are skipped.
+ */
+export async function copyFromContainer(
+  instance: StartedTestContainer,
+  containerPath: string,
+  hostPath: string,
+  containerName: string,
+): Promise<void> {
+  const destination = path.resolve(hostPath);
+  const intoDirectory = await stat(destination).then(
+    (stats) => stats.isDirectory(),
+    () => false,
+  );
+  let files = 0;
+
+  let archive: NodeJS.ReadableStream;
+  try {
+    archive = await instance.copyArchiveFromContainer(containerPath);
+  } catch (error) {
+    throw toFileSystemError(error, {
+      containerName,
+      path: containerPath,
+      operation: "copy",
+      side: "container",
+    });
+  }
+
+  const refuse = (entryPath: string, target: string) =>
+    new FileSystemError({
+      message: `Refusing to write '${entryPath}' from '${containerName}' outside '${destination}'`,
+      cause: { containerName, path: target, operation: "copy" },
+    });
+
+  try {
+    const realDestination = await resolveReal(destination);
+
+    await readArchive(archive, async (header, content) => {
+      const type = toEntryType(header);
+      const relative = stripRoot(header.name);
+      // A single file copied onto an existing directory keeps its name, like `cp`
+      const target =
+        !relative && type === "file" && intoDirectory
+          ? path.join(destination, path.posix.basename(header.name))
+          : path.resolve(destination, relative);
+
+      if (!isInside(destination, target)) {
+        throw refuse(header.name, target);
+      }
+      // Parents must not lead outside through links, including ones extracted earlier
+      if (
+        target !== destination &&
+        !isInside(realDestination, await resolveReal(path.dirname(target)))
+      ) {
+        throw refuse(header.name, target);
+      }
+
+      switch (type) {
+        case "directory": {
+          const existing = await lstat(target).catch(() => null);
+          if (existing && !existing.isDirectory()) await rm(target, { force: true });
+          await mkdir(target, { recursive: true, mode: header.mode });
+          break;
+        }
+        case "file":
+          await mkdir(path.dirname(target), { recursive: true });
+          await rm(target, { force: true });
+          // `wx` fails rather than following anything created at the path in the meantime
+          await pipeline(
+            Readable.from(content),
+            createWriteStream(target, { mode: header.mode, flags: "wx" }),
+          );
+          files++;
+          break;
+        case "symlink": {
+          if (!isInside(destination, path.resolve(path.dirname(target), header.linkname))) {
+            log.warn("Skipped symlink pointing outside the destination", {
+              container: containerName,
+              path: header.name,
+              linkTarget: header.linkname,
+            });
+            break;
+          }
+          await mkdir(path.dirname(target), { recursive: true });
+          await rm(target, { force: true });
+          await symlink(header.linkname, target);
+          break;
+        }
+        case "hardlink": {
+          const source = path.resolve(destination, stripRoot(header.linkname));
+          if (!isInside(destination, source)) {
+            throw refuse(header.linkname, source);
+          }
+          const realSource = await realpath(source);
+          if (!isInside(realDestination, realSource)) {
+            throw refuse(header.linkname, realSource);
+          }
+          await mkdir(path.dirname(target), { recursive: true });
+          await rm(target, { force: true });
+          await link(realSource, target);
+          break;
+        }
+        default:
+          log.debug("Skipped special file", { container: containerName, path: header.name });
+      }
+    });
+  } catch (error) {
+    if (isError(error, FileSystemError)) {
+      throw error;
+    }
+    throw toFileSystemError(error, {
+      containerName,
+      path: destination,
+      operation: "copy",
+      side: "host",
+    });
+  }
+
+  log.info("Copied out of container", {
+    container: containerName,
+    from: containerPath,
+    to: destination,
+    files,
+  });
+}
+
+/**
+ * Read a file from a running container, following symlinks
+ */
+export async function readContainerFile(
+  instance: StartedTestContainer,
+  filePath: string,
+  containerName: string,
+): Promise<Buffer> {
+  let current = filePath;
+
+  for (let hop = 0; hop <= MAX_SYMLINK_HOPS; hop++) {
+    let found: Header | undefined;
+    let data: Buffer | undefined;
+
+    try {
+      const archive = await instance.copyArchiveFromContainer(current);
+      await readArchive(archive, async (header, content) => {
+        found = header;
+        if (toEntryType(header) === "file") data = await concat(content);
+        return false;
+      });
+    } catch (error) {
+      throw toFileSystemError(error, {
+        containerName,
+        path: current,
+        operation: "read",
+        side: "container",
+      });
+    }
+
+    if (data) return data;
+
+    if (found?.type !== "symlink") {
+      throw new FileSystemError({
+        message: `Cannot read '${current}' in container '${containerName}': it is ${
+          found?.type === "directory" ? "a directory" : "not a regular file"
+        }`,
+        cause: { containerName, path: current, operation: "read" },
+      });
+    }
+    current = path.posix.resolve(path.posix.dirname(current), found.linkname);
+  }
+
+  throw new FileSystemError({
+    message: `Cannot read '${filePath}' in container '${containerName}': too many levels of symbolic links`,
+    cause: { containerName, path: filePath, operation: "read" },
+  });
+}
+
+/**
+ * Write content to a file in a running container, creating missing parents
+ */
+export async function writeContainerFile(
+  instance: StartedTestContainer,
+  filePath: string,
+  content: string | Buffer,
+  mode: number | undefined,
+  containerName: string,
+): Promise<void> {
+  try {
+    await instance.copyContentToContainer([{ content, target: filePath, mode }]);
+  } catch (error) {
+    throw toFileSystemError(error, {
+      containerName,
+      path: filePath,
+      operation: "write",
+      side: "container",
+    });
+  }
+}
+
+function parseListing(output: string, dirPath: string): ContainerFileEntry[] {
+  const links = new Map<string, string>();
+  const entries: ContainerFileEntry[] = [];
+
+  for (const line of output.split("\n")) {
+    const [first, second, ...rest] = line.split("/");
+    if (first === "L" && rest.length > 0) {
+      links.set(second, rest.join("/"));
+      continue;
+    }
+
+    const [mtime, name] = rest;
+    if (!name) continue;
+    const mode = Number.parseInt(first, 16);
+    entries.push({
+      name,
+      path: path.posix.join(dirPath, name),
+      type: toModeType(mode),
+      size: Number(second),
+      mode: mode & 0o7777,
+      modifiedAt: new Date(Number(mtime) * 1000),
+    });
+  }
+
+  for (const entry of entries) {
+    if (entry.type === "symlink") entry.linkTarget = links.get(entry.name);
+  }
+  return entries;
+}
+
+/**
+ * List one level with `stat` inside the container, or `null` when the image lacks the
+ * tools (or the exec user the permissions) and the archive has to be read instead
+ */
+async function execListDir(
+  instance: StartedTestContainer,
+  dirPath: string,
+  containerName: string,
+): Promise<ContainerFileEntry[] | null> {
+  let result: Awaited<ReturnType<StartedTestContainer["exec"]>>;
+  try {
+    result = await instance.exec(["sh", "-c", LIST_SCRIPT, "sh", dirPath]);
+  } catch {
+    return null;
+  }
+
+  switch (result.exitCode) {
+    case 0:
+      return parseListing(result.stdout, dirPath);
+    case 2:
+      throw new FileNotFoundError({
+        message: `No such file or directory in container '${containerName}': '${dirPath}'`,
+        cause: { containerName, path: dirPath, operation: "read", containerPath: dirPath },
+      });
+    case 3:
+      throw new FileSystemError({
+        message: `Cannot list '${dirPath}' in container '${containerName}': it is not a directory`,
+        cause: { containerName, path: dirPath, operation: "read" },
+      });
+    default:
+      return null;
+  }
+}
+
+/**
+ * List the direct children of a directory from an archive of it, for images without a shell
+ *
+ * The archive holds the whole subtree, so this is the slow path.
+ */
+async function archiveListDir(
+  instance: StartedTestContainer,
+  dirPath: string,
+  containerName: string,
+): Promise<ContainerFileEntry[]> {
+  const entries: ContainerFileEntry[] = [];
+  let root: Header | undefined;
+
+  try {
+    const archive = await instance.copyArchiveFromContainer(dirPath);
+    await readArchive(archive, async (header) => {
+      const relative = stripRoot(header.name);
+
+      if (!root) {
+        root = header;
+        return header.type === "directory";
+      }
+
+      // Only direct children; the archive holds the whole tree
+      if (!relative || relative.includes("/")) return;
+
+      const type = toEntryType(header);
+      entries.push({
+        name: relative,
+        path: path.posix.join(dirPath, relative),
+        type: type === "hardlink" ? "file" : type,
+        size: header.size,
+        mode: header.mode & 0o7777,
+        modifiedAt: header.mtime,
+        ...(type === "symlink" && { linkTarget: header.linkname }),
+      });
+    });
+  } catch (error) {
+    throw toFileSystemError(error, {
+      containerName,
+      path: dirPath,
+      operation: "read",
+      side: "container",
+    });
+  }
+
+  if (root?.type !== "directory") {
+    throw new FileSystemError({
+      message: `Cannot list '${dirPath}' in container '${containerName}': it is not a directory`,
+      cause: { containerName, path: dirPath, operation: "read" },
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * List the direct children of a directory in a running container
+ *
+ * Uses `stat` in the container so only one level is read, falling back to an archive
+ * of the directory when the image has no shell.
+ */
+export async function listContainerDir(
+  instance: StartedTestContainer,
+  dirPath: string,
+  containerName: string,
+): Promise<ContainerFileEntry[]> {
+  const entries =
+    (await execListDir(instance, dirPath, containerName)) ??
+    (await archiveListDir(instance, dirPath, containerName));
+
+  return entries.sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,86 @@
+import { ContainerLifecycleError } from "~/errors";
+
+export type LifecycleHookName =
+  | "onBeforeStart"
+  | "onStarted"
+  | "onReady"
+  | "onBeforeStop"
+  | "onStopped";
+
+export type LifecycleHook<Args extends unknown[]> = (...args: Args) => void | Promise<void>;
+
+/**
+ * Hooks registered on a builder
+ *
+ * - `onBeforeStart`: before anything is created
+ * - `onStarted`: the container or environment is running and its wait strategies passed
+ * - `onReady`: the controller is fully resolved (ports, networks, connection info)
+ * - `onBeforeStop`: at the start of `cleanup()`, while everything is still running
+ * - `onStopped`: after everything has been stopped and removed
+ */
+export interface LifecycleHooks<Started, Controller> {
+  onBeforeStart: LifecycleHook<[]>[];
+  onStarted: LifecycleHook<[Started]>[];
+  onReady: LifecycleHook<[Controller]>[];
+  onBeforeStop: LifecycleHook<[Controller]>[];
+  onStopped: LifecycleHook<[]>[];
+}
+
+/**
+ * Events emitted on a controller after `start()` has resolved
+ */
+export interface LifecycleEvents {
+  beforeStop: [];
+  stopped: [];
+}
+
+const HOOK_STATES: Record<
+  LifecycleHookName,
+  { currentState: "starting" | "running" | "stopped"; expectedState: "running" | "stopped" }
+> = {
+  onBeforeStart: { currentState: "starting", expectedState: "running" },
+  onStarted: { currentState: "starting", expectedState: "running" },
+  onReady: { currentState: "running", expectedState: "running" },
+  onBeforeStop: { currentState: "running", expectedState: "stopped" },
+  onStopped: { currentState: "stopped", expectedState: "stopped" },
+};
+
+export function createLifecycleHooks<Started, Controller>(): LifecycleHooks<Started, Controller> {
+  return {
+    onBeforeStart: [],
+    onStarted: [],
+    onReady: [],
+    onBeforeStop: [],
+    onStopped: [],
+  };
+}
+
+/**
+ * Run the hooks registered under one name in order, wrapping the first failure
+ * in a lifecycle error that names the hook as the operation
+ */
+export async function runLifecycleHooks<Args extends unknown[]>(
+  name: LifecycleHookName,
+  hooks: LifecycleHook<Args>[],
+  args: Args,
+  target: { containerName: string; containerId?: string },
+): Promise<void> {
+  for (const hook of hooks) {
+    try {
+      await hook(...args);
+    } catch (error) {
+      throw new ContainerLifecycleError({
+        message: `Lifecycle hook '${name}' failed for '${target.containerName}': ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        cause: {
+          containerName: target.containerName,
+          containerId: target.containerId,
+          operation: name,
+          ...HOOK_STATES[name],
+        },
+        parent: error instanceof Error ? error : undefined,
+      });
+    }
+  }
+}
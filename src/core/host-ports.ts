@@ -0,0 +1,127 @@
+import { writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  LABEL_TESTCONTAINERS_SESSION_ID,
+  RandomUuid,
+  TestContainers,
+  getContainerRuntimeClient,
+  getReaper,
+} from "testcontainers";
+import { stringify } from "yaml";
+import { NetworkError, PortBindingError } from "~/errors";
+import type { ComposeFileSpec } from "./compose-file";
+import { getLogger } from "./logger";
+
+/**
+ * Hostname containers use to reach ports exposed from the host
+ */
+export const HOST_ALIAS = "host.testcontainers.internal";
+
+// Set by testcontainers on its port forwarder (an sshd container shared by the process)
+const SSHD_LABEL = "org.testcontainers.sshd";
+
+// Sharing these namespaces leaves no separate network to connect or hosts file to extend
+const SHARED_NETWORK_MODES = /^(host|none|container:|service:)/;
+
+const log = getLogger("network");
+
+/**
+ * Forward host ports into containers, reachable as `host.testcontainers.internal:<port>`
+ *
+ * Works the same on Linux and Docker Desktop. Containers started from now on get the
+ * hostname; ports can be added at any time and become reachable from those containers at once.
+ */
+export async function exposeHostPorts(...ports: number[]): Promise<void> {
+  try {
+    // Even without ports this starts the forwarder, so containers created next get the hostname
+    await TestContainers.exposeHostPorts(...ports);
+    log.info("Exposed host ports", { ports, host: HOST_ALIAS });
+  } catch (error) {
+    throw new PortBindingError({
+      message: `Failed to expose host ports [${ports.join(", ")}] to containers as ${HOST_ALIAS}`,
+      cause: {
+        port: ports[0] ?? 0,
+        hostPort: ports[0],
+        reason: error instanceof Error ? error.message : String(error),
+        operation: "expose host ports",
+      },
+      parent: error instanceof Error ? error : undefined,
+    });
+  }
+}
+
+async function getPortForwarder(): Promise<{ ipAddress: string; networkId: string }> {
+  const client = await getContainerRuntimeClient();
+  const { sessionId } = await getReaper(client);
+  const [forwarder] = await client.container.dockerode.listContainers({
+    filters: {
+      label: [`${SSHD_LABEL}=true`, `${LABEL_TESTCONTAINERS_SESSION_ID}=${sessionId}`],
+      status: ["running"],
+    },
+  });
+  const network = forwarder && Object.values(forwarder.NetworkSettings.Networks)[0];
+
+  if (!network) {
+    throw new NetworkError({
+      message: "The host port forwarder is not running",
+      cause: { operation: "expose host ports" },
+    });
+  }
+  return { ipAddress: network.IPAddress, networkId: network.NetworkID };
+}
+
+/**
+ * Services that get their own network namespace, and so the host alias
+ */
+export function getForwardedServices(spec: ComposeFileSpec): string[] {
+  return Object.entries(spec.services)
+    .filter(([, service]) => !SHARED_NETWORK_MODES.test(String(service.network_mode ?? "")))
+    .map(([name]) => name);
+}
+
+/**
+ * Write a compose override adding the host alias to every service, for `docker compose -f`
+ *
+ * The alias points at the port forwarder, which services can reach once
+ * `connectToPortForwarder()` has joined them to its network.
+ */
+export async function writeHostPortsOverride(spec: ComposeFileSpec): Promise<string> {
+  const { ipAddress } = await getPortForwarder();
+  const override = {
+    services: Object.fromEntries(
+      getForwardedServices(spec).map((name) => [
+        name,
+        { extra_hosts: [`${HOST_ALIAS}:${ipAddress}`] },
+      ]),
+    ),
+  };
+
+  const overridePath = path.join(
+    tmpdir(),
+    `dockhand-host-ports-${new RandomUuid().nextUuid()}.yml`,
+  );
+  await writeFile(overridePath, stringify(override));
+  return overridePath;
+}
+
+/**
+ * Join the port forwarder's network from each started container
+ */
+export async function connectToPortForwarder(containerIds: string[]): Promise<void> {
+  const client = await getContainerRuntimeClient();
+  const { networkId } = await getPortForwarder();
+  const network = client.container.dockerode.getNetwork(networkId);
+
+  await Promise.all(
+    containerIds.map(async (id) => {
+      try {
+        await network.connect({ Container: id });
+      } catch (error) {
+        // Already connected, e.g. a reused container
+        if ((error as { statusCode?: number }).statusCode === 403) return;
+        throw error;
+      }
+    }),
+  );
+}
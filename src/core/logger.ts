@@ -0,0 +1,120 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Event categories; each maps to a `dockhand:<scope>` debug namespace
+ */
+export type LogScope =
+  | "build"
+  | "pull"
+  | "start"
+  | "wait"
+  | "stop"
+  | "network"
+  | "cleanup"
+  | "preflight"
+  | "reset"
+  | "snapshot"
+  | "files"
+  | "exec";
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const NAMESPACE = "dockhand";
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+/**
+ * Discards everything; the default unless a logger is set or `DEBUG` enables a namespace
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Write events to stderr as `dockhand:<scope> message key=value ...`
+ */
+export function createConsoleLogger(minLevel: LogLevel = "debug"): Logger {
+  const write =
+    (level: LogLevel) =>
+    (message: string, fields: LogFields = {}) => {
+      if (LEVELS.indexOf(level) < LEVELS.indexOf(minLevel)) return;
+
+      const { scope, ...rest } = fields;
+      const details = Object.entries(rest)
+        .filter(([, value]) => value !== undefined)
+        .map(
+          ([key, value]) => `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`,
+        )
+        .join(" ");
+
+      process.stderr.write(
+        `${scope ? `${NAMESPACE}:${scope}` : NAMESPACE} ${level.toUpperCase()} ${message}${details ? ` ${details}` : ""}\n`,
+      );
+    };
+
+  return {
+    debug: write("debug"),
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error"),
+  };
+}
+
+let configured: Logger | null = null;
+const consoleLogger = createConsoleLogger();
+
+/**
+ * Route all events to a logger; pass `null` to go back to the silent/`DEBUG` default
+ */
+export function setLogger(logger: Logger | null): void {
+  configured = logger;
+}
+
+/**
+ * Check a namespace against `DEBUG`, e.g. `DEBUG=dockhand:*,-dockhand:wait`
+ */
+export function isDebugEnabled(namespace: string): boolean {
+  const patterns = (process.env.DEBUG ?? "").split(/[\s,]+/).filter(Boolean);
+  let enabled = false;
+
+  for (const pattern of patterns) {
+    const excluded = pattern.startsWith("-");
+    const source = (excluded ? pattern.slice(1) : pattern)
+      .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+      .replace(/\*/g, ".*");
+
+    if (new RegExp(`^${source}$`).test(namespace)) {
+      if (excluded) return false;
+      enabled = true;
+    }
+  }
+
+  return enabled;
+}
+
+/**
+ * Logger for one event scope; every entry carries the scope as a field
+ */
+export function getLogger(scope: LogScope): Logger {
+  const emit = (level: LogLevel) => (message: string, fields?: LogFields) => {
+    const target =
+      configured ?? (isDebugEnabled(`${NAMESPACE}:${scope}`) ? consoleLogger : silentLogger);
+    target[level](message, { scope, ...fields });
+  };
+
+  return {
+    debug: emit("debug"),
+    info: emit("info"),
+    warn: emit("warn"),
+    error: emit("error"),
+  };
+}
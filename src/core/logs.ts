@@ -0,0 +1,367 @@
+import { createWriteStream } from "node:fs";
+import { PassThrough, type Readable } from "node:stream";
+import { finished } from "node:stream/promises";
+import { type StartedTestContainer, getContainerRuntimeClient } from "testcontainers";
+import { ContainerLifecycleError, ContainerTimeoutError, isError } from "~/errors";
+
+export type LogSource = "stdout" | "stderr";
+
+export interface LogLine {
+  source: LogSource;
+  text: string;
+}
+
+export interface LogOptions {
+  /**
+   * Only the last N lines of existing output
+   */
+  tail?: number;
+  /**
+   * Only output since this time (a Date or a Unix timestamp in seconds)
+   */
+  since?: Date | number;
+  /**
+   * Only lines matching this pattern
+   */
+  filter?: RegExp;
+  /**
+   * Only stdout or only stderr
+   */
+  source?: LogSource;
+}
+
+export interface WaitForLogOptions extends LogOptions {
+  /**
+   * How long to wait in ms (default: 60000)
+   */
+  timeout?: number;
+}
+
+export interface ContainerLogs {
+  /**
+   * Raw stream of combined stdout and stderr
+   */
+  (): Promise<NodeJS.ReadableStream>;
+  /**
+   * Read the output produced so far
+   */
+  lines(opts?: LogOptions): Promise<LogLine[]>;
+  /**
+   * Follow output as it is produced; returns a function that stops following
+   */
+  follow(onLine: (line: LogLine) => void, opts?: LogOptions): Promise<() => void>;
+  /**
+   * Resolve with the first line matching the pattern, including lines already written
+   */
+  waitFor(pattern: RegExp | string, opts?: WaitForLogOptions): Promise<LogLine>;
+  /**
+   * Append followed output to a file; returns a function that stops and closes the file
+   */
+  tee(filePath: string, opts?: LogOptions): Promise<() => Promise<void>>;
+  /**
+   * Most recent lines kept in memory since the container started
+   */
+  recent(): string[];
+}
+
+/**
+ * Fixed-size buffer of the most recent output lines
+ */
+export class LogRingBuffer {
+  private readonly entries: string[] = [];
+  private partial = "";
+
+  constructor(private readonly capacity = 100) {}
+
+  push(text: string): void {
+    if (this.capacity <= 0) return;
+
+    this.entries.push(text);
+    if (this.entries.length > this.capacity) {
+      this.entries.shift();
+    }
+  }
+
+  /**
+   * Record a raw stream, splitting chunks into lines
+   */
+  consume(stream: Readable): void {
+    stream.on("data", (chunk: Buffer | string) => {
+      const lines = (this.partial + chunk.toString()).split(/\r?\n/);
+      this.partial = lines.pop() ?? "";
+      for (const line of lines) {
+        this.push(line);
+      }
+    });
+    stream.on("end", () => {
+      if (this.partial) {
+        this.push(this.partial);
+        this.partial = "";
+      }
+    });
+    // A vanished container simply ends the capture
+    stream.on("error", () => {});
+  }
+
+  lines(): string[] {
+    return this.partial ? [...this.entries, this.partial] : [...this.entries];
+  }
+}
+
+/**
+ * Add the buffered output to a lifecycle error that doesn't carry logs yet
+ */
+export function attachRecentLogs(error: unknown, lines: string[]): void {
+  if (lines.length === 0 || !(error instanceof Error) || !isError(error, ContainerLifecycleError)) {
+    return;
+  }
+
+  if ((error as { recentLogs?: string[] }).recentLogs === undefined) {
+    Object.assign(error, { recentLogs: lines });
+  }
+}
+
+function toDockerLogOptions(opts: LogOptions) {
+  const since =
+    opts.since instanceof Date ? Math.floor(opts.since.getTime() / 1000) : (opts.since ?? 0);
+
+  return { stdout: true, stderr: true, tail: opts.tail ?? -1, since };
+}
+
+// Global and sticky patterns carry `lastIndex` between calls, which would skip matches on later lines
+function testLine(pattern: RegExp, text: string): boolean {
+  pattern.lastIndex = 0;
+  return pattern.test(text);
+}
+
+function accepts(line: LogLine, opts: LogOptions): boolean {
+  if (opts.source && line.source !== opts.source) return false;
+  return opts.filter ? testLine(opts.filter, line.text) : true;
+}
+
+/**
+ * Split a non-followed, multiplexed log buffer into lines, keeping their order
+ */
+function demuxBuffer(buffer: Buffer, tty: boolean): LogLine[] {
+  const lines: LogLine[] = [];
+  const partial: Record<LogSource, string> = { stdout: "", stderr: "" };
+
+  const append = (source: LogSource, text: string) => {
+    const parts = (partial[source] + text).split(/\r?\n/);
+    partial[source] = parts.pop() ?? "";
+    for (const part of parts) {
+      lines.push({ source, text: part });
+    }
+  };
+
+  if (tty) {
+    append("stdout", buffer.toString("utf-8"));
+  } else {
+    // Frames are an 8 byte header (stream type, padding, payload size) followed by the payload
+    let offset = 0;
+    while (offset + 8 <= buffer.length) {
+      const size = buffer.readUInt32BE(offset + 4);
+      const payload = buffer.subarray(offset + 8, offset + 8 + size).toString("utf-8");
+      append(buffer[offset] === 2 ? "stderr" : "stdout", payload);
+      offset += 8 + size;
+    }
+  }
+
+  for (const source of ["stdout", "stderr"] as const) {
+    if (partial[source]) lines.push({ source, text: partial[source] });
+  }
+  return lines;
+}
+
+function splitLines(stream: PassThrough, source: LogSource, onLine: (line: LogLine) => void) {
+  let partial = "";
+
+  stream.on("data", (chunk: Buffer | string) => {
+    const lines = (partial + chunk.toString()).split(/\r?\n/);
+    partial = lines.pop() ?? "";
+    for (const text of lines) {
+      onLine({ source, text });
+    }
+  });
+  stream.on("end", () => {
+    if (partial) onLine({ source, text: partial });
+  });
+}
+
+async function getDockerContainer(containerId: string) {
+  const client = await getContainerRuntimeClient();
+  const container = client.container.getById(containerId);
+  const info = await container.inspect();
+
+  return { client, container, tty: info.Config.Tty };
+}
+
+/**
+ * Read a container's output so far, split into stdout and stderr lines
+ */
+export async function readLogLines(containerId: string, opts: LogOptions = {}): Promise<LogLine[]> {
+  const { container, tty } = await getDockerContainer(containerId);
+  const buffer = await container.logs({ ...toDockerLogOptions(opts), follow: false });
+
+  return demuxBuffer(buffer, tty).filter((line) => accepts(line, opts));
+}
+
+/**
+ * Follow a container's output line by line until stopped or the container exits
+ */
+export async function followLogLines(
+  containerId: string,
+  onLine: (line: LogLine) => void,
+  opts: LogOptions = {},
+  onEnd?: () => void,
+): Promise<() => void> {
+  const { client, container, tty } = await getDockerContainer(containerId);
+  const raw = await container.logs({ ...toDockerLogOptions(opts), follow: true });
+
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  const emit = (line: LogLine) => {
+    if (accepts(line, opts)) onLine(line);
+  };
+
+  splitLines(stdout, "stdout", emit);
+  splitLines(stderr, "stderr", emit);
+
+  // Report the end only once both streams have flushed their last lines
+  Promise.all([finished(stdout), finished(stderr)])
+    .catch(() => {})
+    .then(() => onEnd?.());
+
+  if (tty) {
+    raw.pipe(stdout);
+  } else {
+    client.container.dockerode.modem.demuxStream(raw, stdout, stderr);
+  }
+
+  raw.on("end", () => {
+    stdout.end();
+    stderr.end();
+  });
+  raw.on("error", () => {
+    stdout.end();
+    stderr.end();
+  });
+
+  return () => {
+    (raw as Readable).destroy?.();
+  };
+}
+
+/**
+ * Wait for the first line matching a pattern
+ */
+export async function waitForLogLine(
+  containerId: string,
+  containerName: string,
+  pattern: RegExp | string,
+  opts: WaitForLogOptions = {},
+): Promise<LogLine> {
+  const timeoutMs = opts.timeout ?? 60_000;
+  const matches = (text: string) =>
+    typeof pattern === "string" ? text.includes(pattern) : testLine(pattern, text);
+
+  return await new Promise<LogLine>((resolve, reject) => {
+    let settled = false;
+    let stop: (() => void) | undefined;
+
+    const finish = (result: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      stop?.();
+      result();
+    };
+
+    const timer = setTimeout(
+      () =>
+        finish(() =>
+          reject(
+            new ContainerTimeoutError({
+              message: `No log line matching ${pattern} from '${containerName}' within ${timeoutMs}ms`,
+              cause: {
+                containerName,
+                containerId,
+                timeoutMs,
+                waitStrategy: `log message ${pattern}`,
+                currentState: "running",
+                expectedState: "running",
+                operation: "wait for log",
+              },
+            }),
+          ),
+        ),
+      timeoutMs,
+    );
+
+    followLogLines(
+      containerId,
+      (line) => {
+        if (matches(line.text)) finish(() => resolve(line));
+      },
+      opts,
+      () =>
+        finish(() =>
+          reject(
+            new ContainerLifecycleError({
+              message: `Container '${containerName}' exited before logging a line matching ${pattern}`,
+              cause: {
+                containerName,
+                containerId,
+                currentState: "stopped",
+                expectedState: "running",
+                operation: "wait for log",
+              },
+            }),
+          ),
+        ),
+    )
+      .then((stopFollowing) => {
+        stop = stopFollowing;
+        if (settled) stopFollowing();
+      })
+      .catch((error) => finish(() => reject(error)));
+  });
+}
+
+/**
+ * Build the `logs` API for a started container
+ */
+export function createContainerLogs(
+  instance: StartedTestContainer,
+  buffer?: LogRingBuffer,
+): ContainerLogs {
+  const containerId = instance.getId();
+
+  return Object.assign(async () => await instance.logs(), {
+    lines: (opts?: LogOptions) => readLogLines(containerId, opts),
+
+    follow: (onLine: (line: LogLine) => void, opts?: LogOptions) =>
+      followLogLines(containerId, onLine, opts),
+
+    waitFor: (pattern: RegExp | string, opts?: WaitForLogOptions) =>
+      waitForLogLine(containerId, instance.getName(), pattern, opts),
+
+    tee: async (filePath: string, opts?: LogOptions) => {
+      const file = createWriteStream(filePath, { flags: "a" });
+      const stop = await followLogLines(
+        containerId,
+        (line) => file.write(`${line.text}\n`),
+        opts,
+        () => file.end(),
+      );
+
+      return async () => {
+        stop();
+        file.end();
+        await finished(file).catch(() => {});
+      };
+    },
+
+    recent: () => buffer?.lines() ?? [],
+  });
+}
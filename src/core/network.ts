@@ -0,0 +1,179 @@
+import { Network, RandomUuid, type StartedNetwork } from "testcontainers";
+import { NetworkCreationError, NetworkError, NetworkNotFoundError } from "~/errors";
+import { getLogger } from "./logger";
+import { registerResource } from "./registry";
+
+const log = getLogger("network");
+
+export interface NetworkController {
+  network: StartedNetwork;
+  name: string;
+  id: string;
+  /**
+   * Remove the network now if nothing is attached; otherwise the last attached
+   * container removes it when it cleans up
+   */
+  cleanup: () => Promise<void>;
+}
+
+interface TrackedNetwork {
+  network: StartedNetwork;
+  attachments: number;
+  unregister: () => void;
+}
+
+// Process-wide registry so containers can join networks by name
+const networks = new Map<string, TrackedNetwork>();
+
+async function removeNetwork(name: string): Promise<void> {
+  const tracked = networks.get(name);
+  if (!tracked) return;
+
+  networks.delete(name);
+  tracked.unregister();
+  try {
+    await tracked.network.stop();
+    log.info("Removed network", { network: name });
+  } catch (error) {
+    throw new NetworkError({
+      message: `Failed to remove network '${name}'`,
+      cause: {
+        networkName: name,
+        operation: "remove",
+      },
+      parent: error instanceof Error ? error : undefined,
+    });
+  }
+}
+
+/**
+ * Check whether a network with this name is tracked
+ */
+export function hasNetwork(name: string): boolean {
+  return networks.has(name);
+}
+
+/**
+ * Look up a tracked network by name
+ */
+export function getNetwork(name: string): StartedNetwork {
+  const tracked = networks.get(name);
+  if (!tracked) {
+    throw new NetworkNotFoundError({
+      message: `Network '${name}' not found`,
+      cause: {
+        networkName: name,
+        suggestion: `Create it first with: await useNetwork('${name}').start()`,
+      },
+    });
+  }
+  return tracked.network;
+}
+
+/**
+ * Record a container joining a tracked network
+ */
+export function attachNetwork(name: string): StartedNetwork {
+  const network = getNetwork(name);
+  (networks.get(name) as TrackedNetwork).attachments++;
+  return network;
+}
+
+/**
+ * Drop a container's reference without ever removing the network, for containers that never started
+ */
+export function releaseNetwork(name: string): void {
+  const tracked = networks.get(name);
+  if (tracked) {
+    tracked.attachments = Math.max(0, tracked.attachments - 1);
+  }
+}
+
+/**
+ * Record a container leaving a tracked network, removing the network when it was the last one
+ */
+export async function detachNetwork(name: string): Promise<void> {
+  releaseNetwork(name);
+
+  if (networks.get(name)?.attachments === 0) {
+    await removeNetwork(name);
+  }
+}
+
+export class ManagedNetwork {
+  constructor(private readonly name?: string) {}
+
+  /**
+   * Create the network
+   */
+  async start(): Promise<NetworkController> {
+    if (this.name && networks.has(this.name)) {
+      throw new NetworkCreationError({
+        message: `Network '${this.name}' already exists`,
+        cause: {
+          networkName: this.name,
+          reason: "A network with this name is already tracked",
+          operation: "create",
+        },
+      });
+    }
+
+    let network: StartedNetwork;
+    try {
+      const uuid = this.name ? { nextUuid: () => this.name as string } : new RandomUuid();
+      network = await new Network(uuid).start();
+    } catch (error) {
+      throw new NetworkCreationError({
+        message: `Failed to create network${this.name ? ` '${this.name}'` : ""}`,
+        cause: {
+          networkName: this.name,
+          reason: error instanceof Error ? error.message : "Unknown error",
+          operation: "create",
+        },
+        parent: error instanceof Error ? error : undefined,
+      });
+    }
+
+    const name = network.getName();
+    log.info("Created network", { network: name, networkId: network.getId() });
+    networks.set(name, {
+      network,
+      attachments: 0,
+      // Removed regardless of attachments when the process exits
+      unregister: registerResource({ kind: "network", name, cleanup: () => removeNetwork(name) }),
+    });
+
+    return {
+      network,
+      name,
+      id: network.getId(),
+
+      cleanup: async () => {
+        // With containers still attached, the last of them removes it
+        if (networks.get(name)?.attachments === 0) {
+          await removeNetwork(name);
+        }
+      },
+    };
+  }
+}
+
+/**
+ * Create a named network that containers can join by name
+ *
+ * @example
+ * ```typescript
+ * const network = await useNetwork('backend').start();
+ *
+ * const db = await useContainer('postgres:14')
+ *   .withNetwork('backend')
+ *   .withNetworkAliases('database')
+ *   .start();
+ *
+ * // The network is removed once the last attached container cleans up
+ * await db.cleanup();
+ * ```
+ */
+export function useNetwork(name?: string): ManagedNetwork {
+  return new ManagedNetwork(name);
+}
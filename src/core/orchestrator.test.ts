@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  type CleanupFailure,
+  ConfigurationError,
+  MissingConfigError,
+  OrchestrationError,
+} from "~/errors";
+import type { ContainerController, StandaloneContainer } from "./container";
+import { useOrchestrator } from "./orchestrator";
+
+// Records what happened to every fake container, in order
+function recorder() {
+  const events: string[] = [];
+
+  const container = (name: string, failure?: Error, cleanupFailure?: Error): StandaloneContainer =>
+    ({
+      start: async () => {
+        events.push(`start ${name}`);
+        // Let other branches run, as a real start would
+        await new Promise((resolve) => setImmediate(resolve));
+        if (failure) throw failure;
+        events.push(`started ${name}`);
+        return {
+          cleanup: async () => {
+            events.push(`cleanup ${name}`);
+            if (cleanupFailure) throw cleanupFailure;
+          },
+        } as unknown as ContainerController;
+      },
+    }) as unknown as StandaloneContainer;
+
+  return { events, container };
+}
+
+describe("ContainerOrchestrator", () => {
+  it("starts dependencies first and resolves a topological order", async () => {
+    const { events, container } = recorder();
+    const { order, cleanup } = await useOrchestrator()
+      .withContainer("api", container("api"), { dependsOn: ["db", "cache"] })
+      .withContainer("worker", container("worker"), { dependsOn: ["api"] })
+      .withContainer("db", container("db"))
+      .withContainer("cache", container("cache"))
+      .start();
+
+    assert.deepEqual(order, ["db", "cache", "api", "worker"]);
+    assert.ok(events.indexOf("start api") > events.indexOf("started db"));
+    assert.ok(events.indexOf("start api") > events.indexOf("started cache"));
+    assert.ok(events.indexOf("start worker") > events.indexOf("started api"));
+    // Independent branches start side by side
+    assert.ok(events.indexOf("start cache") < events.indexOf("started db"));
+
+    events.length = 0;
+    await cleanup();
+    assert.deepEqual(events, ["cleanup worker", "cleanup api", "cleanup cache", "cleanup db"]);
+  });
+
+  it("rejects a dependency on an unknown container before starting anything", async () => {
+    const { events, container } = recorder();
+    const orchestrator = useOrchestrator()
+      .withContainer("db", container("db"))
+      .withContainer("api", container("api"), { dependsOn: ["db", "queue"] });
+
+    await assert.rejects(orchestrator.start(), (error) => {
+      assert.ok(error instanceof MissingConfigError);
+      assert.equal((error as { requiredKey?: string }).requiredKey, "queue");
+      assert.equal((error as { containerName?: string }).containerName, "api");
+      return true;
+    });
+    assert.deepEqual(events, []);
+  });
+
+  it("rejects a cycle, naming only the containers in it", async () => {
+    const { events, container } = recorder();
+    const orchestrator = useOrchestrator()
+      .withContainer("db", container("db"))
+      .withContainer("a", container("a"), { dependsOn: ["db", "c"] })
+      .withContainer("b", container("b"), { dependsOn: ["a"] })
+      .withContainer("c", container("c"), { dependsOn: ["b"] });
+
+    await assert.rejects(orchestrator.start(), (error) => {
+      assert.ok(error instanceof ConfigurationError);
+      assert.ok(!(error instanceof MissingConfigError));
+      assert.match((error as Error).message, /Circular dependency/);
+      assert.deepEqual((error as { providedValue?: string[] }).providedValue, ["a", "b", "c"]);
+      return true;
+    });
+    assert.deepEqual(events, []);
+  });
+
+  it("rejects a container depending on itself", async () => {
+    const { container } = recorder();
+    const orchestrator = useOrchestrator().withContainer("db", container("db"), {
+      dependsOn: ["db"],
+    });
+
+    await assert.rejects(orchestrator.start(), ConfigurationError);
+  });
+
+  it("rejects registering the same name twice", () => {
+    const { container } = recorder();
+    const orchestrator = useOrchestrator().withContainer("db", container("db"));
+
+    assert.throws(() => orchestrator.withContainer("db", container("db")), ConfigurationError);
+  });
+
+  it("rolls back started containers in reverse when one fails", async () => {
+    const { events, container } = recorder();
+    const orchestrator = useOrchestrator()
+      .withContainer("db", container("db"))
+      .withContainer("cache", container("cache"), { dependsOn: ["db"] })
+      .withContainer("api", container("api", new Error("boom")), { dependsOn: ["cache"] });
+
+    await assert.rejects(orchestrator.start(), (error) => {
+      assert.ok(error instanceof OrchestrationError);
+      assert.equal((error as { failedNode?: string }).failedNode, "api");
+      assert.deepEqual((error as { upstream?: string[] }).upstream, ["cache", "db"]);
+      assert.deepEqual((error as { rolledBack?: string[] }).rolledBack, ["cache", "db"]);
+      return true;
+    });
+    assert.deepEqual(events.slice(-2), ["cleanup cache", "cleanup db"]);
+  });
+
+  it("reports containers that fail to clean up during rollback, after trying the rest", async () => {
+    const { events, container } = recorder();
+    const stuck = new Error("container is stuck");
+    const orchestrator = useOrchestrator()
+      .withContainer("db", container("db"))
+      .withContainer("cache", container("cache", undefined, stuck), { dependsOn: ["db"] })
+      .withContainer("api", container("api", new Error("boom")), { dependsOn: ["cache"] });
+
+    await assert.rejects(orchestrator.start(), (error) => {
+      assert.ok(error instanceof OrchestrationError);
+      const { rollbackFailures } = error as { rollbackFailures?: CleanupFailure[] };
+      assert.deepEqual(rollbackFailures, [
+        { resource: "cache", operation: "cleanup", error: stuck },
+      ]);
+      assert.match((error as Error).message, /'cache' failed to clean up: container is stuck/);
+      assert.equal((error as { parent?: Error }).parent?.message, "boom");
+      return true;
+    });
+    assert.deepEqual(events.slice(-2), ["cleanup cache", "cleanup db"]);
+  });
+});
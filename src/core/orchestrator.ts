@@ -0,0 +1,280 @@
+import {
+  type CleanupFailure,
+  ConfigurationError,
+  MissingConfigError,
+  OrchestrationError,
+  createCleanupError,
+} from "~/errors";
+import type { ContainerController, StandaloneContainer } from "./container";
+import { resetEach } from "./reset";
+
+export interface OrchestratedContainerOptions {
+  /**
+   * Names of containers that must be started (and ready) before this one
+   */
+  dependsOn?: string[];
+}
+
+export interface OrchestratorController<N extends string> {
+  containers: Record<N, ContainerController>;
+  /**
+   * Topological order the graph was resolved to; teardown runs in reverse
+   */
+  order: N[];
+  /**
+   * Run every container's reset commands and hooks in parallel
+   */
+  resetAll: () => Promise<void>;
+  cleanup: () => Promise<void>;
+}
+
+interface OrchestratorNode {
+  name: string;
+  container: StandaloneContainer;
+  dependsOn: string[];
+}
+
+export class ContainerOrchestrator<N extends string = never> {
+  private nodes = new Map<string, OrchestratorNode>();
+
+  /**
+   * Register a named container, optionally depending on other registered containers
+   */
+  withContainer<K extends string>(
+    name: K,
+    container: StandaloneContainer,
+    options: OrchestratedContainerOptions = {},
+  ): ContainerOrchestrator<N | K> {
+    if (this.nodes.has(name)) {
+      throw new ConfigurationError({
+        message: `Container '${name}' is already registered with this orchestrator`,
+        cause: {
+          containerName: name,
+          configKey: "name",
+          providedValue: name,
+          expectedType: "unique container name",
+        },
+      });
+    }
+
+    this.nodes.set(name, {
+      name,
+      container,
+      dependsOn: [...new Set(options.dependsOn ?? [])],
+    });
+    return this as ContainerOrchestrator<N | K>;
+  }
+
+  /**
+   * Resolve the dependency graph into a topological order (Kahn's algorithm)
+   */
+  private resolveOrder(): string[] {
+    const inDegree = new Map<string, number>();
+    const dependents = new Map<string, string[]>();
+
+    for (const node of this.nodes.values()) {
+      inDegree.set(node.name, node.dependsOn.length);
+      for (const dependency of node.dependsOn) {
+        if (!this.nodes.has(dependency)) {
+          throw new MissingConfigError({
+            message: `Container '${node.name}' depends on unknown container '${dependency}'`,
+            cause: {
+              containerName: node.name,
+              requiredKey: dependency,
+              context: `dependsOn of '${node.name}'`,
+              configKey: "dependsOn",
+              providedValue: node.dependsOn,
+            },
+          });
+        }
+        dependents.set(dependency, [...(dependents.get(dependency) ?? []), node.name]);
+      }
+    }
+
+    const queue = [...inDegree].filter(([, degree]) => degree === 0).map(([name]) => name);
+    const order: string[] = [];
+
+    while (queue.length > 0) {
+      const name = queue.shift() as string;
+      order.push(name);
+      for (const dependent of dependents.get(name) ?? []) {
+        const remaining = (inDegree.get(dependent) ?? 0) - 1;
+        inDegree.set(dependent, remaining);
+        if (remaining === 0) {
+          queue.push(dependent);
+        }
+      }
+    }
+
+    if (order.length !== this.nodes.size) {
+      const cyclic = [...this.nodes.keys()].filter((name) => !order.includes(name));
+      throw new ConfigurationError({
+        message: `Circular dependency detected between containers: ${cyclic.join(", ")}`,
+        cause: {
+          configKey: "dependsOn",
+          providedValue: cyclic,
+          expectedType: "acyclic dependency graph",
+        },
+      });
+    }
+
+    return order;
+  }
+
+  /**
+   * Collect every transitive dependency of a node, nearest first
+   */
+  private getUpstream(name: string): string[] {
+    const upstream: string[] = [];
+    const visit = (current: string) => {
+      for (const dependency of this.nodes.get(current)?.dependsOn ?? []) {
+        if (!upstream.includes(dependency)) {
+          upstream.push(dependency);
+          visit(dependency);
+        }
+      }
+    };
+    visit(name);
+    return upstream;
+  }
+
+  /**
+   * Tear down started containers in reverse order, attempting every one and collecting failures
+   */
+  private async teardown(
+    names: string[],
+    controllers: Map<string, ContainerController>,
+  ): Promise<CleanupFailure[]> {
+    const failures: CleanupFailure[] = [];
+
+    for (const name of [...names].reverse()) {
+      const controller = controllers.get(name);
+      if (!controller) continue;
+
+      try {
+        await controller.cleanup();
+      } catch (error) {
+        failures.push({
+          resource: name,
+          operation: "cleanup",
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      } finally {
+        controllers.delete(name);
+      }
+    }
+
+    return failures;
+  }
+
+  /**
+   * Start every registered container, running independent branches in parallel
+   */
+  async start(): Promise<OrchestratorController<N>> {
+    const order = this.resolveOrder();
+    const controllers = new Map<string, ContainerController>();
+    const pending = new Map<string, Promise<ContainerController>>();
+    // Completion order - a node always completes after its dependencies
+    const started: string[] = [];
+    let failure: { name: string; error: unknown } | null = null;
+
+    const startNode = (name: string): Promise<ContainerController> => {
+      const existing = pending.get(name);
+      if (existing) return existing;
+
+      const node = this.nodes.get(name) as OrchestratorNode;
+      const promise = (async () => {
+        await Promise.all(node.dependsOn.map(startNode));
+
+        // Another branch already failed, don't start anything new
+        if (failure) {
+          throw failure.error;
+        }
+
+        try {
+          const controller = await node.container.start();
+          controllers.set(name, controller);
+          started.push(name);
+          return controller;
+        } catch (error) {
+          failure ??= { name, error };
+          throw error;
+        }
+      })();
+
+      pending.set(name, promise);
+      return promise;
+    };
+
+    // Wait for in-flight branches to settle so nothing is left half-started
+    await Promise.allSettled(order.map(startNode));
+
+    if (failure) {
+      const { name, error } = failure as { name: string; error: unknown };
+      const rolledBack = [...started].reverse();
+      const rollbackFailures = await this.teardown(started, controllers);
+      const leftBehind = rollbackFailures
+        .map((rollback) => `; '${rollback.resource}' failed to clean up: ${rollback.error.message}`)
+        .join("");
+
+      const upstream = this.getUpstream(name);
+      throw new OrchestrationError({
+        message: `Failed to start container '${name}'${upstream.length > 0 ? ` (upstream: ${upstream.join(" -> ")})` : ""}; rolled back ${rolledBack.length} container(s)${leftBehind}`,
+        cause: {
+          containerName: name,
+          failedNode: name,
+          upstream,
+          rolledBack,
+          ...(rollbackFailures.length > 0 && { rollbackFailures }),
+          currentState: "failed",
+          expectedState: "running",
+          operation: "start",
+        },
+        parent: error instanceof Error ? error : undefined,
+      });
+    }
+
+    const containers = {} as Record<N, ContainerController>;
+    for (const name of order) {
+      containers[name as N] = controllers.get(name) as ContainerController;
+    }
+
+    return {
+      containers,
+      order: order as N[],
+
+      resetAll: async () => {
+        await resetEach(
+          "orchestrator",
+          order.map((name) => ({ name, reset: () => containers[name as N].reset() })),
+        );
+      },
+
+      cleanup: async () => {
+        const failures = await this.teardown(order, controllers);
+
+        if (failures.length > 0) {
+          throw createCleanupError("orchestrator", failures);
+        }
+      },
+    };
+  }
+}
+
+/**
+ * Orchestrate multiple containers with dependencies between them
+ *
+ * @example
+ * ```typescript
+ * const { containers, cleanup } = await useOrchestrator()
+ *   .withContainer('postgres', useContainer('postgres:14').withPort(5432))
+ *   .withContainer('redis', useContainer('redis:latest').withPort(6379))
+ *   .withContainer('api', useContainer('my-api:latest').withPort(3000), {
+ *     dependsOn: ['postgres', 'redis'],
+ *   })
+ *   .start();
+ * ```
+ */
+export function useOrchestrator(): ContainerOrchestrator {
+  return new ContainerOrchestrator();
+}
@@ -0,0 +1,21 @@
+import assert from "node:assert/strict";
+import { tmpdir } from "node:os";
+import { describe, it } from "node:test";
+import { checkDisk } from "./preflight";
+
+describe("checkDisk", () => {
+  it("reads free space for a daemon on a local socket", async () => {
+    const disk = await checkDisk(tmpdir(), true);
+
+    assert.equal(disk?.path, tmpdir());
+    assert.ok((disk?.totalBytes ?? 0) > 0);
+  });
+
+  it("skips a remote daemon, even when its root directory exists here", async () => {
+    assert.equal(await checkDisk(tmpdir(), false), undefined);
+  });
+
+  it("reports nothing when the root directory can't be read", async () => {
+    assert.equal(await checkDisk("/no/such/docker/root", true), undefined);
+  });
+});
@@ -0,0 +1,223 @@
+import { execFile } from "node:child_process";
+import { constants } from "node:fs";
+import { access, statfs } from "node:fs/promises";
+import { promisify } from "node:util";
+import { getContainerRuntimeClient } from "testcontainers";
+import {
+  DockerResourceError,
+  createDockerNotAvailableError,
+  createDockerPermissionError,
+} from "~/errors";
+import type { CheckDockerOptions } from "~/types";
+import { getLogger } from "./logger";
+
+export interface DockerCheckResult {
+  host: string;
+  serverVersion: string;
+  apiVersion: string;
+  os: string;
+  osType: string;
+  architecture: string;
+  rootless: boolean;
+  /**
+   * Free space under the Docker root directory, when it is readable from this machine
+   */
+  disk?: {
+    path: string;
+    availableBytes: number;
+    totalBytes: number;
+  };
+  compose: {
+    available: boolean;
+    version?: string;
+  };
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_MIN_FREE_DISK = 1024 ** 3;
+const DEFAULT_SOCKET = "/var/run/docker.sock";
+
+const log = getLogger("preflight");
+
+// Shared by every start() asking for a preflight with the same options, so each is only checked once
+const preflights = new Map<string, Promise<DockerCheckResult>>();
+
+function formatBytes(bytes: number): string {
+  return `${(bytes / 1024 ** 3).toFixed(1)} GiB`;
+}
+
+/**
+ * Local socket the client would talk to, if any
+ */
+function getSocketPath(): string | undefined {
+  const host = process.env.DOCKER_HOST;
+  if (!host) return DEFAULT_SOCKET;
+  return host.startsWith("unix://") ? host.slice("unix://".length) : undefined;
+}
+
+/**
+ * Work out why the daemon could not be reached: a socket we may not open, or no daemon at all
+ */
+async function diagnoseUnreachable(error: Error): Promise<Error> {
+  const socketPath = getSocketPath();
+
+  if (socketPath) {
+    try {
+      await access(socketPath, constants.R_OK | constants.W_OK);
+    } catch (accessError) {
+      const code = (accessError as NodeJS.ErrnoException).code;
+      if (code === "EACCES" || code === "EPERM") {
+        return createDockerPermissionError(socketPath, error.message, error);
+      }
+    }
+  }
+
+  return createDockerNotAvailableError(socketPath ?? process.env.DOCKER_HOST, error);
+}
+
+/**
+ * Free space under the daemon's root directory, read locally
+ *
+ * Only a daemon reached through a socket runs on this machine; for one over TCP or SSH, a
+ * local path of the same name is a different disk, so nothing is reported.
+ */
+export async function checkDisk(
+  rootDir: string,
+  local: boolean,
+): Promise<DockerCheckResult["disk"]> {
+  if (!local) {
+    log.debug("Skipped the disk check for a remote daemon", { path: rootDir });
+    return undefined;
+  }
+
+  try {
+    const stats = await statfs(rootDir);
+    return {
+      path: rootDir,
+      availableBytes: stats.bavail * stats.bsize,
+      totalBytes: stats.blocks * stats.bsize,
+    };
+  } catch {
+    // Remote daemons and Docker Desktop keep their root directory out of reach
+    return undefined;
+  }
+}
+
+async function checkCompose(timeoutMs: number): Promise<DockerCheckResult["compose"]> {
+  try {
+    const { stdout } = await promisify(execFile)("docker", ["compose", "version", "--short"], {
+      timeout: timeoutMs,
+    });
+    return { available: true, version: stdout.trim() };
+  } catch {
+    return { available: false };
+  }
+}
+
+async function inspectDaemon() {
+  const client = await getContainerRuntimeClient();
+  const { dockerode } = client.container;
+  const [info, versionInfo] = await Promise.all([dockerode.info(), dockerode.version()]);
+
+  return {
+    host: client.info.containerRuntime.host,
+    // The modem only keeps a socket path (unix or named pipe) for a daemon on this machine
+    local: Boolean((dockerode.modem as { socketPath?: unknown }).socketPath),
+    info,
+    versionInfo,
+  };
+}
+
+/**
+ * Check that Docker is usable before running anything
+ *
+ * Reports the daemon version, platform, rootless mode, free disk and compose plugin.
+ * Throws `DockerNotAvailableError` when the daemon doesn't answer, `DockerPermissionError`
+ * when its socket can't be opened and `DockerResourceError` when disk space is short.
+ */
+export async function checkDocker(options: CheckDockerOptions = {}): Promise<DockerCheckResult> {
+  const timeoutMs = options.timeout ?? DEFAULT_TIMEOUT_MS;
+  const minFreeDisk = options.minFreeDisk ?? DEFAULT_MIN_FREE_DISK;
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+
+  let daemon: Awaited<ReturnType<typeof inspectDaemon>>;
+  try {
+    daemon = await Promise.race([
+      inspectDaemon(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Docker daemon did not respond within ${timeoutMs}ms`)),
+          timeoutMs,
+        );
+        timer.unref();
+      }),
+    ]);
+  } catch (error) {
+    const failure = await diagnoseUnreachable(
+      error instanceof Error ? error : new Error(String(error)),
+    );
+    log.error("Docker is not usable", {
+      error: failure.message,
+      durationMs: Date.now() - startedAt,
+    });
+    throw failure;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const { info, versionInfo } = daemon;
+  const [disk, compose] = await Promise.all([
+    checkDisk(info.DockerRootDir, daemon.local),
+    checkCompose(timeoutMs),
+  ]);
+
+  const result: DockerCheckResult = {
+    host: daemon.host,
+    serverVersion: info.ServerVersion,
+    apiVersion: versionInfo.ApiVersion,
+    os: info.OperatingSystem,
+    osType: info.OSType,
+    architecture: info.Architecture,
+    rootless: (info.SecurityOptions ?? []).some((option: string) =>
+      option.includes("name=rootless"),
+    ),
+    disk,
+    compose,
+  };
+
+  log.info("Docker is usable", { ...result, durationMs: Date.now() - startedAt });
+
+  if (disk && minFreeDisk > 0 && disk.availableBytes < minFreeDisk) {
+    throw new DockerResourceError({
+      message: `Only ${formatBytes(disk.availableBytes)} free under ${disk.path}, need at least ${formatBytes(minFreeDisk)}. Free space with: docker system prune`,
+      cause: {
+        dockerHost: process.env.DOCKER_HOST,
+        reason: "Not enough free disk space for images and containers",
+        resourceType: "disk",
+        available: formatBytes(disk.availableBytes),
+        required: formatBytes(minFreeDisk),
+        operation: "preflight",
+      },
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Run `checkDocker()` once per process for each set of options; later calls share the
+ * result, while a failure is forgotten so the next call checks again
+ */
+export async function ensureDocker(options: CheckDockerOptions = {}): Promise<DockerCheckResult> {
+  const key = JSON.stringify({ timeout: options.timeout, minFreeDisk: options.minFreeDisk });
+
+  let preflight = preflights.get(key);
+  if (!preflight) {
+    preflight = checkDocker(options);
+    preflights.set(key, preflight);
+    preflight.catch(() => preflights.delete(key));
+  }
+
+  return await preflight;
+}
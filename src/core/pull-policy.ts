@@ -0,0 +1,74 @@
+import {
+  ImageName,
+  type ImagePullPolicy,
+  PullPolicy,
+  getContainerRuntimeClient,
+} from "testcontainers";
+import { ImageNotFoundError } from "~/errors";
+import type { PullPolicyName } from "~/types";
+
+/**
+ * Check whether an image exists in the local image cache
+ */
+export async function isImagePresent(image: string): Promise<boolean> {
+  const client = await getContainerRuntimeClient();
+  return await client.image.exists(ImageName.fromString(image));
+}
+
+/**
+ * Create an image-not-present error for the `never` pull policy
+ */
+export function createImageNotPresentError(image: string) {
+  const imageName = ImageName.fromString(image);
+
+  return new ImageNotFoundError({
+    message: `Image '${imageName.string}' is not present locally and pull policy is 'never'`,
+    cause: {
+      imageName: imageName.image,
+      tag: imageName.tag,
+      registry: imageName.registry,
+      searchedIn: ["local cache"],
+      suggestion: `Pull the image before running offline: docker pull ${imageName.string}`,
+      operation: "pull",
+    },
+  });
+}
+
+/**
+ * Resolve a pull policy name into a testcontainers policy for a single image,
+ * consulting the local image cache for `ifNotPresent` and `never`
+ */
+export async function resolvePullPolicy(
+  policy: PullPolicyName,
+  image: string,
+): Promise<ImagePullPolicy> {
+  if (policy === "always" || policy === "alwaysPull") {
+    return PullPolicy.alwaysPull();
+  }
+
+  const present = await isImagePresent(image);
+
+  if (policy === "never") {
+    if (!present) {
+      throw createImageNotPresentError(image);
+    }
+    return { shouldPull: () => false };
+  }
+
+  return { shouldPull: () => !present };
+}
+
+/**
+ * Map a pull policy name onto the `docker compose up --pull` option
+ */
+export function getComposePullOption(policy: PullPolicyName): "always" | "missing" | "never" {
+  switch (policy) {
+    case "always":
+    case "alwaysPull":
+      return "always";
+    case "never":
+      return "never";
+    default:
+      return "missing";
+  }
+}
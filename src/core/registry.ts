@@ -0,0 +1,196 @@
+import { type CleanupFailure, ContainerTimeoutError, createCleanupError } from "~/errors";
+import { getLogger } from "./logger";
+
+export type ResourceKind = "container" | "compose" | "network";
+
+export interface RegisteredResource {
+  kind: ResourceKind;
+  name: string;
+  cleanup: () => Promise<void>;
+}
+
+export interface RegistryOptions {
+  /**
+   * Upper bound for cleaning up everything on exit, in ms (default: 30000)
+   */
+  timeout?: number;
+  /**
+   * Install SIGINT, SIGTERM, beforeExit and uncaught-exception handlers (default: true)
+   */
+  exitHandlers?: boolean;
+}
+
+const SIGNALS = ["SIGINT", "SIGTERM"] as const;
+
+const log = getLogger("cleanup");
+
+// Process-wide registry of everything started and not yet cleaned up, in start order
+const resources = new Set<RegisteredResource>();
+
+const options: Required<RegistryOptions> = {
+  timeout: 30_000,
+  exitHandlers: true,
+};
+
+let handlersInstalled = false;
+let exiting = false;
+
+const onSignal = (signal: NodeJS.Signals) => {
+  if (exiting) return;
+  exiting = true;
+  log.warn("Received signal, cleaning up", { signal, resources: resources.size });
+
+  void cleanupAll()
+    .catch(() => {})
+    .finally(() => {
+      // Re-raise with our handlers gone so the process exits the way it would have
+      uninstallExitHandlers();
+      process.kill(process.pid, signal);
+    });
+};
+
+const onBeforeExit = () => {
+  if (resources.size === 0 || exiting) return;
+  void cleanupAll().catch(() => {});
+};
+
+const onUncaughtException = (error: Error) => {
+  if (exiting) return;
+  exiting = true;
+  log.error("Uncaught exception, cleaning up", { error: error.message, resources: resources.size });
+
+  void cleanupAll()
+    .catch(() => {})
+    .finally(() => {
+      // Rethrow without our handler so Node reports the error and exits as usual
+      uninstallExitHandlers();
+      setImmediate(() => {
+        throw error;
+      });
+    });
+};
+
+function installExitHandlers(): void {
+  if (handlersInstalled || !options.exitHandlers) return;
+  handlersInstalled = true;
+
+  for (const signal of SIGNALS) {
+    process.on(signal, onSignal);
+  }
+  process.on("beforeExit", onBeforeExit);
+  process.on("uncaughtException", onUncaughtException);
+}
+
+function uninstallExitHandlers(): void {
+  if (!handlersInstalled) return;
+  handlersInstalled = false;
+
+  for (const signal of SIGNALS) {
+    process.off(signal, onSignal);
+  }
+  process.off("beforeExit", onBeforeExit);
+  process.off("uncaughtException", onUncaughtException);
+}
+
+/**
+ * Configure the global registry; disabling exit handlers removes any already installed
+ */
+export function configureRegistry(overrides: RegistryOptions): void {
+  Object.assign(options, overrides);
+
+  if (!options.exitHandlers) {
+    uninstallExitHandlers();
+  } else if (resources.size > 0) {
+    installExitHandlers();
+  }
+}
+
+/**
+ * Track a started resource until it is cleaned up; returns a function that untracks it
+ */
+export function registerResource(resource: RegisteredResource): () => void {
+  resources.add(resource);
+  installExitHandlers();
+
+  return () => {
+    resources.delete(resource);
+  };
+}
+
+/**
+ * Resources that have been started and not yet cleaned up, in start order
+ */
+export function getRegisteredResources(): RegisteredResource[] {
+  return Array.from(resources);
+}
+
+/**
+ * Clean up every registered resource in reverse start order
+ *
+ * Each resource is attempted once; failures and anything left when the timeout
+ * expires are reported together in a single cleanup error
+ */
+export async function cleanupAll(timeoutMs: number = options.timeout): Promise<void> {
+  const pending = Array.from(resources).reverse();
+  const startedAt = Date.now();
+  const failures: CleanupFailure[] = [];
+  let current: RegisteredResource | undefined;
+  let timer: NodeJS.Timeout | undefined;
+
+  const run = async () => {
+    for (const resource of pending) {
+      current = resource;
+      resources.delete(resource);
+      try {
+        await resource.cleanup();
+      } catch (error) {
+        failures.push({
+          resource: resource.name,
+          operation: `cleanup ${resource.kind}`,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+    }
+    current = undefined;
+  };
+
+  const timedOut = await Promise.race([
+    run().then(() => false),
+    new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(true), timeoutMs);
+      timer.unref();
+    }),
+  ]);
+  clearTimeout(timer);
+
+  if (timedOut) {
+    const remaining = pending.slice(current ? pending.indexOf(current) : pending.length);
+    for (const resource of remaining) {
+      failures.push({
+        resource: resource.name,
+        operation: `cleanup ${resource.kind}`,
+        error: new ContainerTimeoutError({
+          message: `Cleanup of ${resource.kind} '${resource.name}' did not finish within ${timeoutMs}ms`,
+          cause: {
+            containerName: resource.name,
+            timeoutMs,
+            currentState: "unknown",
+            expectedState: "stopped",
+            operation: "cleanup",
+          },
+        }),
+      });
+    }
+  }
+
+  log.info("Cleaned up registered resources", {
+    resources: pending.length,
+    failures: failures.length,
+    timedOut,
+    durationMs: Date.now() - startedAt,
+  });
+
+  if (failures.length > 0) {
+    throw createCleanupError("registry", failures);
+  }
+}
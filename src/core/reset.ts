@@ -0,0 +1,90 @@
+import type { StartedTestContainer } from "testcontainers";
+import { type CleanupFailure, ExecutionError, createResetError } from "~/errors";
+import { classifyError } from "./classify";
+import { getLogger } from "./logger";
+
+const log = getLogger("reset");
+
+/**
+ * Run one reset command in a container, failing when it exits non-zero
+ */
+export async function runResetCommand(
+  instance: StartedTestContainer,
+  command: string[],
+  containerName: string,
+): Promise<void> {
+  const context = {
+    containerName,
+    containerId: instance.getId(),
+    operation: "reset",
+    command,
+  };
+
+  let result: Awaited<ReturnType<StartedTestContainer["exec"]>>;
+  try {
+    result = await instance.exec(command);
+  } catch (error) {
+    throw (
+      classifyError(error, context) ??
+      new ExecutionError({
+        message: `Failed to run reset command in '${containerName}': ${command.join(" ")}`,
+        cause: context,
+        parent: error instanceof Error ? error : undefined,
+      })
+    );
+  }
+
+  if (result.exitCode !== 0) {
+    const failure = new Error(result.stderr || result.output);
+    throw (
+      classifyError(failure, { ...context, exitCode: result.exitCode }) ??
+      new ExecutionError({
+        message: `Reset command exited with ${result.exitCode} in '${containerName}': ${command.join(" ")}`,
+        cause: {
+          ...context,
+          exitCode: result.exitCode,
+          stdout: result.stdout,
+          stderr: result.stderr,
+        },
+        parent: failure,
+      })
+    );
+  }
+}
+
+/**
+ * Reset every target in parallel, then report all failures in one `ContainerResetError`
+ */
+export async function resetEach(
+  resourceName: string,
+  targets: Array<{ name: string; reset: () => Promise<void> }>,
+): Promise<void> {
+  const startedAt = Date.now();
+  const results = await Promise.allSettled(targets.map((target) => target.reset()));
+
+  const failures: CleanupFailure[] = [];
+  for (const [index, result] of results.entries()) {
+    if (result.status === "rejected") {
+      failures.push({
+        resource: targets[index].name,
+        operation: "reset",
+        error: result.reason instanceof Error ? result.reason : new Error(String(result.reason)),
+      });
+    }
+  }
+
+  if (failures.length > 0) {
+    log.error("Failed to reset services", {
+      target: resourceName,
+      failed: failures.map((failure) => failure.resource),
+      durationMs: Date.now() - startedAt,
+    });
+    throw createResetError(resourceName, failures);
+  }
+
+  log.info("Reset services", {
+    target: resourceName,
+    services: targets.map((target) => target.name),
+    durationMs: Date.now() - startedAt,
+  });
+}
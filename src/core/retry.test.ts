@@ -0,0 +1,182 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  ContainerLifecycleError,
+  ContainerRetryError,
+  DockerDaemonError,
+  ImagePullError,
+  PortBindingError,
+  createDockerPermissionError,
+} from "~/errors";
+import { isTransientError, retryStart } from "./retry";
+
+function pullError(statusCode?: number) {
+  return new ImagePullError({
+    message: "Failed to pull image 'redis'",
+    cause: { imageName: "redis", reason: "pull failed", statusCode },
+  });
+}
+
+const daemonError = () =>
+  new DockerDaemonError({
+    message: "Docker daemon failed",
+    cause: { reason: "HTTP 500" },
+  });
+
+const portError = () =>
+  new PortBindingError({
+    message: "Port 5432 is already in use",
+    cause: { port: 5432, hostPort: 5432, reason: "port is already allocated" },
+  });
+
+describe("isTransientError", () => {
+  it("retries pulls without a status, rate limited or failing on the registry side", () => {
+    assert.equal(isTransientError(pullError()), true);
+    assert.equal(isTransientError(pullError(429)), true);
+    assert.equal(isTransientError(pullError(503)), true);
+  });
+
+  it("does not retry pulls the registry refused", () => {
+    assert.equal(isTransientError(pullError(404)), false);
+    assert.equal(isTransientError(pullError(401)), false);
+  });
+
+  it("retries daemon errors and port races, but not a denied socket", () => {
+    assert.equal(isTransientError(daemonError()), true);
+    assert.equal(isTransientError(portError()), true);
+    assert.equal(
+      isTransientError(createDockerPermissionError("/var/run/docker.sock", "permission denied")),
+      false,
+    );
+  });
+
+  it("looks through the parent chain", () => {
+    const wrapped = new ContainerLifecycleError({
+      message: "Failed to start container",
+      cause: { currentState: "failed", expectedState: "running" },
+      parent: portError(),
+    });
+
+    assert.equal(isTransientError(wrapped), true);
+  });
+
+  it("does not retry anything else", () => {
+    assert.equal(isTransientError(new Error("boom")), false);
+    assert.equal(isTransientError("boom"), false);
+    assert.equal(isTransientError(undefined), false);
+  });
+});
+
+describe("retryStart", () => {
+  it("makes a single attempt without options and rethrows its error", async () => {
+    const failure = daemonError();
+    let calls = 0;
+
+    await assert.rejects(
+      retryStart("redis", undefined, async () => {
+        calls++;
+        throw failure;
+      }),
+      (error) => error === failure,
+    );
+    assert.equal(calls, 1);
+  });
+
+  it("retries transient failures, cleaning up between attempts", async () => {
+    const seen: string[] = [];
+
+    const result = await retryStart(
+      "redis",
+      { attempts: 3, backoff: 0 },
+      async (attempt) => {
+        seen.push(`attempt ${attempt}`);
+        if (attempt < 3) throw portError();
+        return "started";
+      },
+      async () => {
+        seen.push("between");
+      },
+    );
+
+    assert.equal(result, "started");
+    assert.deepEqual(seen, ["attempt 1", "between", "attempt 2", "between", "attempt 3"]);
+  });
+
+  it("stops at the first failure that isn't transient", async () => {
+    const failure = new Error("bad config");
+    let calls = 0;
+
+    await assert.rejects(
+      retryStart("redis", { attempts: 5, backoff: 0 }, async () => {
+        calls++;
+        throw failure;
+      }),
+      (error) => error === failure,
+    );
+    assert.equal(calls, 1);
+  });
+
+  it("reports every attempt once they are used up", async () => {
+    await assert.rejects(
+      retryStart("redis", { attempts: 2, backoff: 0 }, async (attempt) => {
+        throw Object.assign(daemonError(), { message: `failure ${attempt}` });
+      }),
+      (error) => {
+        assert.ok(error instanceof ContainerRetryError);
+        const { attempts } = error as { attempts?: Array<{ attempt: number; error: Error }> };
+        assert.deepEqual(
+          attempts?.map((attempt) => [attempt.attempt, attempt.error.message]),
+          [
+            [1, "failure 1"],
+            [2, "failure 2"],
+          ],
+        );
+        assert.match((error as Error).message, /after 2 attempt\(s\)/);
+        return true;
+      },
+    );
+  });
+
+  it("uses retryOn and a backoff function when given", async () => {
+    const delays: number[] = [];
+    let calls = 0;
+
+    await retryStart(
+      "redis",
+      {
+        attempts: 3,
+        retryOn: (error) => error.message === "flaky",
+        backoff: (attempt) => {
+          delays.push(attempt);
+          return 0;
+        },
+      },
+      async () => {
+        calls++;
+        if (calls < 3) throw new Error("flaky");
+      },
+    );
+
+    assert.equal(calls, 3);
+    assert.deepEqual(delays, [2, 3]);
+  });
+
+  it("keeps retrying when cleaning up a failed attempt fails", async () => {
+    let calls = 0;
+
+    const result = await retryStart(
+      "redis",
+      { attempts: 2, backoff: 0 },
+      async () => {
+        calls++;
+        if (calls === 1) throw daemonError();
+        return calls;
+      },
+      async () => {
+        throw new Error("cleanup failed");
+      },
+    );
+
+    assert.equal(result, 2);
+  });
+});
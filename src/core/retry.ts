@@ -0,0 +1,125 @@
+import { getContainerRuntimeClient } from "testcontainers";
+import {
+  DockerDaemonError,
+  DockerPermissionError,
+  ImagePullError,
+  PortBindingError,
+  type RetryAttempt,
+  createRetryError,
+  isError,
+} from "~/errors";
+import type { RetryOptions } from "~/types";
+import { getLogger } from "./logger";
+
+/**
+ * Label put on every container created by one `start()` so failed attempts can be removed
+ */
+export const START_ID_LABEL = "dockhand.start-id";
+
+const DEFAULT_ATTEMPTS = 3;
+const DEFAULT_BACKOFF_MS = 1000;
+
+const log = getLogger("start");
+
+/**
+ * Check whether an error, or any error it wraps, is worth retrying:
+ * image pulls (apart from client errors other than rate limiting), daemon hiccups and port races
+ */
+export function isTransientError(error: unknown): boolean {
+  let current: unknown = error;
+
+  while (current instanceof Error) {
+    if (isError(current, ImagePullError)) {
+      const { statusCode } = current as { statusCode?: number };
+      return statusCode === undefined || statusCode === 429 || statusCode >= 500;
+    }
+
+    if (isError(current, DockerPermissionError)) {
+      return false;
+    }
+
+    if (isError(current, DockerDaemonError) || isError(current, PortBindingError)) {
+      return true;
+    }
+
+    current = (current as { parent?: unknown }).parent;
+  }
+
+  return false;
+}
+
+function getBackoffDelay(backoff: RetryOptions["backoff"], attempt: number): number {
+  if (typeof backoff === "function") {
+    return backoff(attempt);
+  }
+
+  return (backoff ?? DEFAULT_BACKOFF_MS) * 2 ** (attempt - 2);
+}
+
+/**
+ * Run a start operation under a retry policy
+ *
+ * Only failures accepted by `retryOn` are retried, with `between` run before each
+ * retry to remove what the failed attempt left behind. When more than one attempt
+ * was made, the final error reports all of them.
+ */
+export async function retryStart<T>(
+  target: string,
+  options: RetryOptions | undefined,
+  run: (attempt: number) => Promise<T>,
+  between?: () => Promise<void>,
+): Promise<T> {
+  const maxAttempts = Math.max(1, options?.attempts ?? (options ? DEFAULT_ATTEMPTS : 1));
+  const retryOn = options?.retryOn ?? isTransientError;
+  const attempts: RetryAttempt[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = Date.now();
+
+    try {
+      return await run(attempt);
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      attempts.push({ attempt, durationMs: Date.now() - startedAt, error: failure });
+
+      if (attempt >= maxAttempts || !retryOn(failure)) {
+        if (attempts.length === 1) throw error;
+        throw createRetryError(target, attempts);
+      }
+
+      const delayMs = getBackoffDelay(options?.backoff, attempt + 1);
+      log.warn("Start attempt failed, retrying", {
+        target,
+        attempt,
+        maxAttempts,
+        delayMs,
+        error: failure.message,
+      });
+
+      await between?.().catch((cleanupError) => {
+        log.warn("Failed to remove resources of failed attempt", {
+          target,
+          attempt,
+          error: cleanupError instanceof Error ? cleanupError.message : String(cleanupError),
+        });
+      });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Force-remove every container carrying a start id, including ones that never started
+ */
+export async function removeStartAttempts(startId: string): Promise<void> {
+  const client = await getContainerRuntimeClient();
+  const { dockerode } = client.container;
+  const leftovers = await dockerode.listContainers({
+    all: true,
+    filters: { label: [`${START_ID_LABEL}=${startId}`] },
+  });
+
+  await Promise.all(
+    leftovers.map((info) => dockerode.getContainer(info.Id).remove({ force: true, v: true })),
+  );
+}
@@ -0,0 +1,131 @@
+import { createReadStream, createWriteStream } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { RandomUuid, type StartedTestContainer, getContainerRuntimeClient } from "testcontainers";
+import { getLogger } from "./logger";
+
+/**
+ * Label put on every snapshot image, holding the snapshot name
+ */
+export const SNAPSHOT_LABEL = "dockhand.snapshot";
+
+const SNAPSHOT_REPOSITORY = "dockhand-snapshot";
+
+const log = getLogger("snapshot");
+
+/**
+ * A committed container filesystem plus copies of the volumes it had mounted
+ */
+export interface ContainerSnapshot {
+  name: string;
+  /**
+   * `repository:tag` of the committed image
+   */
+  image: string;
+  imageId: string;
+  volumes: Array<{ destination: string; archivePath: string }>;
+  createdAt: Date;
+}
+
+// Docker tags allow [A-Za-z0-9_.-], starting with a letter, digit or underscore
+function toTag(name: string): string {
+  const tag = name.replace(/[^A-Za-z0-9_.-]/g, "-").replace(/^[.-]+/, "");
+  return `${tag.slice(0, 64) || "snapshot"}-${new RandomUuid().nextUuid().slice(0, 8)}`;
+}
+
+/**
+ * Commit a running container to a labelled local image
+ *
+ * Docker leaves volumes out of commits, so every volume mount (including the anonymous
+ * ones declared by images such as postgres) is archived to `directory` as well. The
+ * container is paused while both are taken so they agree with each other.
+ */
+export async function takeSnapshot(
+  instance: StartedTestContainer,
+  name: string,
+  directory: string,
+): Promise<ContainerSnapshot> {
+  const client = await getContainerRuntimeClient();
+  const container = client.container.dockerode.getContainer(instance.getId());
+  const tag = toTag(name);
+  const startedAt = Date.now();
+
+  const { Mounts } = await container.inspect();
+  const mounts = (Mounts ?? []).filter((mount) => mount.Type === "volume");
+
+  await container.pause();
+  try {
+    const imageId = await instance.commit({
+      repo: SNAPSHOT_REPOSITORY,
+      tag,
+      pause: false,
+      // Lets the reaper remove the image if the process dies before cleanup
+      deleteOnExit: true,
+      changes: [`LABEL ${SNAPSHOT_LABEL}=${JSON.stringify(name)}`],
+    });
+
+    const volumes: ContainerSnapshot["volumes"] = [];
+    for (const [index, mount] of mounts.entries()) {
+      const archivePath = path.join(directory, `${tag}-${index}.tar`);
+      const archive = await container.getArchive({ path: mount.Destination });
+      await pipeline(archive, createWriteStream(archivePath));
+      volumes.push({ destination: mount.Destination, archivePath });
+    }
+
+    const snapshot: ContainerSnapshot = {
+      name,
+      image: `${SNAPSHOT_REPOSITORY}:${tag}`,
+      imageId,
+      volumes,
+      createdAt: new Date(),
+    };
+
+    log.info("Took snapshot", {
+      container: instance.getName(),
+      snapshot: name,
+      image: snapshot.image,
+      volumes: mounts.map((mount) => mount.Destination),
+      durationMs: Date.now() - startedAt,
+    });
+    return snapshot;
+  } finally {
+    await container.unpause();
+  }
+}
+
+/**
+ * Archives that put a snapshot's volume contents back, for `withCopyArchivesToContainer()`
+ */
+export function getVolumeArchives(
+  snapshot: ContainerSnapshot,
+): Array<{ tar: Readable; target: string }> {
+  // Each archive holds the volume directory itself, so it's extracted into the parent
+  return snapshot.volumes.map((volume) => ({
+    tar: createReadStream(volume.archivePath),
+    target: path.posix.dirname(volume.destination),
+  }));
+}
+
+/**
+ * Remove a snapshot's image and volume archives
+ */
+export async function removeSnapshot(snapshot: ContainerSnapshot): Promise<void> {
+  const client = await getContainerRuntimeClient();
+  await client.container.dockerode.getImage(snapshot.imageId).remove({ force: true });
+  await Promise.all(snapshot.volumes.map((volume) => rm(volume.archivePath, { force: true })));
+  log.info("Removed snapshot", { snapshot: snapshot.name, image: snapshot.image });
+}
+
+/**
+ * Create the directory a controller keeps its volume archives in
+ */
+export async function createSnapshotDirectory(): Promise<string> {
+  return await mkdtemp(path.join(tmpdir(), "dockhand-snapshot-"));
+}
+
+export async function removeSnapshotDirectory(directory: string): Promise<void> {
+  await rm(directory, { recursive: true, force: true });
+}
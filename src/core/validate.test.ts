@@ -0,0 +1,206 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ValidationError } from "~/errors";
+import type { ContainerConfig } from "~/types";
+import { assertValidContainerConfig, validateContainerConfig } from "./validate";
+
+// Configs are written loosely on purpose: validation exists for values the types can't stop
+function check(config: Record<string, unknown>) {
+  return validateContainerConfig(config as Partial<ContainerConfig>);
+}
+
+function fields(config: Record<string, unknown>): string[] {
+  return check(config).map((issue) => issue.field);
+}
+
+describe("validateContainerConfig", () => {
+  it("accepts a valid configuration", () => {
+    assert.deepEqual(
+      check({
+        image: "postgres:16",
+        exposedPorts: [5432, { container: 80, host: 8080 }],
+        exposedHostPorts: [3000],
+        resources: { memory: 512, cpu: 1.5 },
+        ulimits: { nofile: { soft: 1024, hard: 4096 }, core: { soft: -1, hard: -1 } },
+        sharedMemorySize: 64 * 1024 ** 2,
+        copyFiles: [{ source: "./init.sql", target: "/docker-entrypoint-initdb.d/init.sql" }],
+        workingDir: "/app",
+        tmpFs: { "/run": "rw" },
+        capabilities: { add: ["NET_ADMIN", "cap_sys_time"], drop: ["ALL"] },
+        env: { POSTGRES_PASSWORD: "test" },
+        ipcMode: "shareable",
+        logBufferSize: 0,
+        retry: { attempts: 2 },
+      }),
+      [],
+    );
+  });
+
+  it("checks container, host and forwarded ports", () => {
+    assert.deepEqual(
+      fields({
+        exposedPorts: [0, 70000, 1.5, { container: 0, host: 8080 }, { container: 80, host: -1 }],
+        exposedHostPorts: [65536],
+      }),
+      [
+        "exposedPorts[0]",
+        "exposedPorts[1]",
+        "exposedPorts[2]",
+        "exposedPorts[3].container",
+        "exposedPorts[4].host",
+        "exposedHostPorts[0]",
+      ],
+    );
+  });
+
+  it("rejects two ports bound to the same host port", () => {
+    const [issue] = check({
+      exposedPorts: [
+        { container: 80, host: 8080 },
+        { container: 81, host: 8080 },
+      ],
+    });
+
+    assert.equal(issue.field, "exposedPorts[1].host");
+    assert.match(issue.constraint, /already bound by exposedPorts\[0\]/);
+  });
+
+  it("checks resources and shared memory are positive", () => {
+    assert.deepEqual(fields({ resources: { memory: 0, cpu: -1 }, sharedMemorySize: 0 }), [
+      "resources.memory",
+      "resources.cpu",
+      "sharedMemorySize",
+    ]);
+  });
+
+  it("checks ulimit names and limits", () => {
+    const issues = check({
+      ulimits: {
+        files: { soft: 1, hard: 1 },
+        nofile: { soft: 1.5, hard: 10 },
+        nproc: { soft: 200, hard: 100 },
+        stack: { soft: -1, hard: 100 },
+        memlock: { soft: 100, hard: -1 },
+      },
+    });
+
+    assert.deepEqual(
+      issues.map((issue) => [issue.field, issue.constraint]),
+      [
+        ["ulimits.files", "must be a ulimit name such as nofile"],
+        ["ulimits.nofile", "soft and hard must be integers, -1 for unlimited"],
+        ["ulimits.nproc", "soft must not exceed hard"],
+        ["ulimits.stack", "soft must not exceed hard"],
+      ],
+    );
+  });
+
+  it("requires absolute paths inside the container", () => {
+    assert.deepEqual(
+      fields({
+        copyFiles: [{ source: "./a", target: "relative/a" }],
+        copyDirectories: [{ source: "./dir", target: "dir" }],
+        copyContent: [{ content: "x", target: "x.txt" }],
+        tmpFs: { tmp: "rw" },
+        workingDir: "app",
+      }),
+      [
+        "copyFiles[0].target",
+        "copyDirectories[0].target",
+        "copyContent[0].target",
+        "tmpFs",
+        "workingDir",
+      ],
+    );
+  });
+
+  it("checks capability names, with or without the CAP_ prefix", () => {
+    assert.deepEqual(
+      fields({ capabilities: { add: ["CAP_NET_RAW", "FLY"], drop: ["net_admin", 42] } }),
+      ["capabilities.add[1]", "capabilities.drop[1]"],
+    );
+  });
+
+  it("checks environment keys and values", () => {
+    assert.deepEqual(fields({ env: { "A=B": "1", "HAS SPACE": "1", "": "1", PORT: 5432 } }), [
+      "env",
+      "env",
+      "env",
+      "env.PORT",
+    ]);
+  });
+
+  it("checks the log buffer size and retry attempts", () => {
+    assert.deepEqual(fields({ logBufferSize: -1, retry: { attempts: 0 } }), [
+      "logBufferSize",
+      "retry.attempts",
+    ]);
+    assert.deepEqual(fields({ logBufferSize: 2.5 }), ["logBufferSize"]);
+  });
+
+  describe("conflicts", () => {
+    it("rejects a network mode together with a network", () => {
+      const [issue] = check({ networkMode: "bridge", network: "backend" });
+
+      assert.equal(issue.field, "networkMode");
+      assert.match(issue.constraint, /cannot be combined with network/);
+    });
+
+    it("rejects exposed ports without a network namespace of their own", () => {
+      for (const networkMode of ["host", "none", "container:db"]) {
+        assert.deepEqual(fields({ networkMode, exposedPorts: [80] }), ["networkMode"]);
+      }
+      assert.deepEqual(fields({ networkMode: "bridge", exposedPorts: [80] }), []);
+    });
+
+    it("rejects an empty network mode", () => {
+      assert.deepEqual(fields({ networkMode: "" }), ["networkMode"]);
+      assert.deepEqual(fields({ networkMode: "container:" }), ["networkMode"]);
+    });
+
+    it("checks the IPC mode, and shared memory against it", () => {
+      assert.deepEqual(fields({ ipcMode: "shared" }), ["ipcMode"]);
+      assert.deepEqual(fields({ ipcMode: "container:" }), ["ipcMode"]);
+      assert.deepEqual(fields({ ipcMode: "container:db" }), []);
+
+      for (const ipcMode of ["host", "none", "container:db"]) {
+        assert.deepEqual(fields({ ipcMode, sharedMemorySize: 1024 }), ["sharedMemorySize"]);
+      }
+      assert.deepEqual(fields({ ipcMode: "private", sharedMemorySize: 1024 }), []);
+    });
+
+    it("requires a user-defined network for aliases", () => {
+      assert.deepEqual(fields({ networkAliases: ["db"] }), ["networkAliases"]);
+      assert.deepEqual(fields({ networkAliases: ["db"], networkMode: "bridge" }), [
+        "networkAliases",
+      ]);
+      assert.deepEqual(fields({ networkAliases: ["db"], network: "backend" }), []);
+      assert.deepEqual(fields({ networkAliases: ["db"], networkMode: "backend" }), []);
+    });
+  });
+});
+
+describe("assertValidContainerConfig", () => {
+  it("throws one ValidationError listing every issue", () => {
+    assert.throws(
+      () =>
+        assertValidContainerConfig("redis", {
+          exposedPorts: [0],
+          workingDir: "app",
+        } as Partial<ContainerConfig>),
+      (error) => {
+        assert.ok(error instanceof ValidationError);
+        const { issues } = error as unknown as { issues: Array<{ field: string }> };
+        assert.deepEqual(
+          issues.map((issue) => issue.field),
+          ["exposedPorts[0]", "workingDir"],
+        );
+        return true;
+      },
+    );
+  });
+
+  it("does nothing for a valid configuration", () => {
+    assert.doesNotThrow(() => assertValidContainerConfig("redis", { exposedPorts: [6379] }));
+  });
+});
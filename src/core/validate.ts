@@ -0,0 +1,350 @@
+import { type ValidationIssue, createValidationError } from "~/errors";
+import type { ContainerConfig } from "~/types";
+
+// Linux capabilities accepted by Docker, without the `CAP_` prefix
+const CAPABILITIES = new Set([
+  "ALL",
+  "AUDIT_CONTROL",
+  "AUDIT_READ",
+  "AUDIT_WRITE",
+  "BLOCK_SUSPEND",
+  "BPF",
+  "CHECKPOINT_RESTORE",
+  "CHOWN",
+  "DAC_OVERRIDE",
+  "DAC_READ_SEARCH",
+  "FOWNER",
+  "FSETID",
+  "IPC_LOCK",
+  "IPC_OWNER",
+  "KILL",
+  "LEASE",
+  "LINUX_IMMUTABLE",
+  "MAC_ADMIN",
+  "MAC_OVERRIDE",
+  "MKNOD",
+  "NET_ADMIN",
+  "NET_BIND_SERVICE",
+  "NET_BROADCAST",
+  "NET_RAW",
+  "PERFMON",
+  "SETFCAP",
+  "SETGID",
+  "SETPCAP",
+  "SETUID",
+  "SYS_ADMIN",
+  "SYS_BOOT",
+  "SYS_CHROOT",
+  "SYS_MODULE",
+  "SYS_NICE",
+  "SYS_PACCT",
+  "SYS_PTRACE",
+  "SYS_RAWIO",
+  "SYS_RESOURCE",
+  "SYS_TIME",
+  "SYS_TTY_CONFIG",
+  "SYSLOG",
+  "WAKE_ALARM",
+]);
+
+const BUILTIN_NETWORK_MODES = new Set(["bridge", "host", "none"]);
+const IPC_MODES = new Set(["none", "private", "shareable", "host"]);
+const ULIMITS = new Set([
+  "core",
+  "cpu",
+  "data",
+  "fsize",
+  "locks",
+  "memlock",
+  "msgqueue",
+  "nice",
+  "nofile",
+  "nproc",
+  "rss",
+  "rtprio",
+  "rttime",
+  "sigpending",
+  "stack",
+]);
+
+// Docker only forbids `=`, whitespace and NUL in variable names
+const ENV_KEY = /^[^=\s\0]+$/;
+
+function isPort(value: unknown): boolean {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 65535;
+}
+
+function isPositive(value: unknown): boolean {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function isAbsolutePath(value: unknown): boolean {
+  return typeof value === "string" && value.startsWith("/");
+}
+
+function checkPorts(config: Partial<ContainerConfig>, issues: ValidationIssue[]): void {
+  const hostPorts = new Map<number, string>();
+
+  for (const [index, port] of (config.exposedPorts ?? []).entries()) {
+    const field = `exposedPorts[${index}]`;
+
+    if (typeof port === "number") {
+      if (!isPort(port)) {
+        issues.push({ field, value: port, constraint: "must be an integer from 1 to 65535" });
+      }
+      continue;
+    }
+
+    if (!isPort(port.container)) {
+      issues.push({
+        field: `${field}.container`,
+        value: port.container,
+        constraint: "must be an integer from 1 to 65535",
+      });
+    }
+
+    if (!isPort(port.host)) {
+      issues.push({
+        field: `${field}.host`,
+        value: port.host,
+        constraint: "must be an integer from 1 to 65535",
+      });
+    } else if (hostPorts.has(port.host)) {
+      issues.push({
+        field: `${field}.host`,
+        value: port.host,
+        constraint: `is already bound by ${hostPorts.get(port.host)}`,
+      });
+    } else {
+      hostPorts.set(port.host, field);
+    }
+  }
+
+  for (const [index, port] of (config.exposedHostPorts ?? []).entries()) {
+    if (!isPort(port)) {
+      issues.push({
+        field: `exposedHostPorts[${index}]`,
+        value: port,
+        constraint: "must be an integer from 1 to 65535",
+      });
+    }
+  }
+}
+
+function checkResources(config: Partial<ContainerConfig>, issues: ValidationIssue[]): void {
+  const { memory, cpu } = config.resources ?? {};
+
+  if (memory !== undefined && !isPositive(memory)) {
+    issues.push({ field: "resources.memory", value: memory, constraint: "must be greater than 0" });
+  }
+
+  if (cpu !== undefined && !isPositive(cpu)) {
+    issues.push({ field: "resources.cpu", value: cpu, constraint: "must be greater than 0" });
+  }
+}
+
+// -1 means unlimited
+function isLimit(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= -1;
+}
+
+function checkUlimits(config: Partial<ContainerConfig>, issues: ValidationIssue[]): void {
+  for (const [name, limit] of Object.entries(config.ulimits ?? {})) {
+    const field = `ulimits.${name}`;
+
+    if (!ULIMITS.has(name)) {
+      issues.push({ field, value: name, constraint: "must be a ulimit name such as nofile" });
+    }
+
+    if (!isLimit(limit.soft) || !isLimit(limit.hard)) {
+      issues.push({
+        field,
+        value: limit,
+        constraint: "soft and hard must be integers, -1 for unlimited",
+      });
+    } else if (limit.hard !== -1 && (limit.soft === -1 || limit.soft > limit.hard)) {
+      issues.push({ field, value: limit, constraint: "soft must not exceed hard" });
+    }
+  }
+
+  if (config.sharedMemorySize !== undefined && !isPositive(config.sharedMemorySize)) {
+    issues.push({
+      field: "sharedMemorySize",
+      value: config.sharedMemorySize,
+      constraint: "must be a number of bytes greater than 0",
+    });
+  }
+}
+
+function checkPaths(config: Partial<ContainerConfig>, issues: ValidationIssue[]): void {
+  const targets: Array<[string, unknown]> = [
+    ...(config.copyFiles ?? []).map((file, index): [string, unknown] => [
+      `copyFiles[${index}].target`,
+      file.target,
+    ]),
+    ...(config.copyDirectories ?? []).map((dir, index): [string, unknown] => [
+      `copyDirectories[${index}].target`,
+      dir.target,
+    ]),
+    ...(config.copyContent ?? []).map((content, index): [string, unknown] => [
+      `copyContent[${index}].target`,
+      content.target,
+    ]),
+    ...Object.keys(config.tmpFs ?? {}).map((path): [string, unknown] => ["tmpFs", path]),
+  ];
+
+  if (config.workingDir !== undefined) {
+    targets.push(["workingDir", config.workingDir]);
+  }
+
+  for (const [field, value] of targets) {
+    if (!isAbsolutePath(value)) {
+      issues.push({ field, value, constraint: "must be an absolute path inside the container" });
+    }
+  }
+}
+
+function checkCapabilities(config: Partial<ContainerConfig>, issues: ValidationIssue[]): void {
+  for (const kind of ["add", "drop"] as const) {
+    for (const [index, name] of (config.capabilities?.[kind] ?? []).entries()) {
+      const normalized = typeof name === "string" ? name.toUpperCase().replace(/^CAP_/, "") : "";
+
+      if (!CAPABILITIES.has(normalized)) {
+        issues.push({
+          field: `capabilities.${kind}[${index}]`,
+          value: name,
+          constraint: "must be a Linux capability name such as NET_ADMIN",
+        });
+      }
+    }
+  }
+}
+
+function checkEnv(config: Partial<ContainerConfig>, issues: ValidationIssue[]): void {
+  for (const [key, value] of Object.entries(config.env ?? {})) {
+    if (!ENV_KEY.test(key)) {
+      issues.push({
+        field: "env",
+        value: key,
+        constraint: "keys must be non-empty without '=' or whitespace",
+      });
+    }
+
+    if (typeof value !== "string") {
+      issues.push({ field: `env.${key}`, value, constraint: "must be a string" });
+    }
+  }
+}
+
+function checkConflicts(config: Partial<ContainerConfig>, issues: ValidationIssue[]): void {
+  if (config.networkMode && config.network) {
+    issues.push({
+      field: "networkMode",
+      value: config.networkMode,
+      constraint: "cannot be combined with network; use one or the other",
+    });
+  }
+
+  const { networkMode, ipcMode } = config;
+  const userDefinedMode =
+    networkMode !== undefined &&
+    !BUILTIN_NETWORK_MODES.has(networkMode) &&
+    !networkMode.startsWith("container:");
+
+  // Without a network namespace of its own, the container has no ports to publish
+  if (
+    config.exposedPorts?.length &&
+    (networkMode === "host" || networkMode === "none" || networkMode?.startsWith("container:"))
+  ) {
+    issues.push({
+      field: "networkMode",
+      value: networkMode,
+      constraint: "cannot be combined with exposed ports; services listen on the host directly",
+    });
+  }
+
+  if (networkMode === "" || networkMode === "container:") {
+    issues.push({ field: "networkMode", value: networkMode, constraint: "must not be empty" });
+  }
+
+  if (ipcMode !== undefined && !IPC_MODES.has(ipcMode) && !/^container:.+/.test(ipcMode)) {
+    issues.push({
+      field: "ipcMode",
+      value: ipcMode,
+      constraint: "must be none, private, shareable, host or container:<name>",
+    });
+  }
+
+  // /dev/shm comes from the host or the other container in these modes
+  if (
+    config.sharedMemorySize !== undefined &&
+    (ipcMode === "host" || ipcMode === "none" || ipcMode?.startsWith("container:"))
+  ) {
+    issues.push({
+      field: "sharedMemorySize",
+      value: config.sharedMemorySize,
+      constraint: `cannot be combined with ipcMode '${ipcMode}'`,
+    });
+  }
+
+  if (config.networkAliases?.length && !config.network && !userDefinedMode) {
+    issues.push({
+      field: "networkAliases",
+      value: config.networkAliases,
+      constraint: "requires network, aliases only resolve on a user-defined network",
+    });
+  }
+}
+
+function checkLifecycle(config: Partial<ContainerConfig>, issues: ValidationIssue[]): void {
+  if (config.logBufferSize !== undefined) {
+    const { logBufferSize } = config;
+    if (!Number.isInteger(logBufferSize) || logBufferSize < 0) {
+      issues.push({
+        field: "logBufferSize",
+        value: logBufferSize,
+        constraint: "must be a non-negative integer",
+      });
+    }
+  }
+
+  if (config.retry?.attempts !== undefined && !(config.retry.attempts >= 1)) {
+    issues.push({
+      field: "retry.attempts",
+      value: config.retry.attempts,
+      constraint: "must be at least 1",
+    });
+  }
+}
+
+/**
+ * Check a container configuration and return every problem found
+ */
+export function validateContainerConfig(config: Partial<ContainerConfig>): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  checkPorts(config, issues);
+  checkResources(config, issues);
+  checkUlimits(config, issues);
+  checkPaths(config, issues);
+  checkCapabilities(config, issues);
+  checkEnv(config, issues);
+  checkConflicts(config, issues);
+  checkLifecycle(config, issues);
+
+  return issues;
+}
+
+/**
+ * Throw a single `ValidationError` listing every problem in a container configuration
+ */
+export function assertValidContainerConfig(
+  subject: string,
+  config: Partial<ContainerConfig>,
+): void {
+  const issues = validateContainerConfig(config);
+
+  if (issues.length > 0) {
+    throw createValidationError(subject, issues);
+  }
+}
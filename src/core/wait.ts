@@ -0,0 +1,140 @@
+import { Wait, type WaitStrategy } from "testcontainers";
+import { getLogger } from "./logger";
+import { readLogLines } from "./logs";
+
+export const RECENT_LOG_LINES = 100;
+
+const log = getLogger("wait");
+
+/**
+ * Serializable description of a wait strategy, as used in environment files
+ */
+export type WaitStrategyDefinition = { timeout?: number } & (
+  | { type: "ports" }
+  | { type: "log"; message: string; regex?: boolean; times?: number }
+  | { type: "http"; path: string; port: number; status?: number }
+  | { type: "healthcheck" }
+  | { type: "command"; command: string }
+  | { type: "oneShot" }
+);
+
+// Strategies created from a definition remember it, so configs can be written back out
+const definitions = new WeakMap<WaitStrategy, WaitStrategyDefinition>();
+
+/**
+ * Create a testcontainers wait strategy from its serializable description
+ */
+export function createWaitStrategy(definition: WaitStrategyDefinition): WaitStrategy {
+  let strategy: WaitStrategy;
+
+  switch (definition.type) {
+    case "ports":
+      strategy = Wait.forListeningPorts();
+      break;
+    case "log":
+      strategy = Wait.forLogMessage(
+        definition.regex ? new RegExp(definition.message) : definition.message,
+        definition.times,
+      );
+      break;
+    case "http": {
+      const http = Wait.forHttp(definition.path, definition.port);
+      strategy = definition.status !== undefined ? http.forStatusCode(definition.status) : http;
+      break;
+    }
+    case "healthcheck":
+      strategy = Wait.forHealthCheck();
+      break;
+    case "command":
+      strategy = Wait.forSuccessfulCommand(definition.command);
+      break;
+    case "oneShot":
+      strategy = Wait.forOneShotStartup();
+      break;
+  }
+
+  if (definition.timeout !== undefined) {
+    strategy.withStartupTimeout(definition.timeout);
+  }
+
+  definitions.set(strategy, definition);
+  return strategy;
+}
+
+/**
+ * The description a strategy was created from, if it came from `createWaitStrategy()`
+ */
+export function describeWaitStrategy(strategy: WaitStrategy): WaitStrategyDefinition | undefined {
+  return definitions.get(strategy);
+}
+
+// Copy a strategy so a timeout can be set without touching one the caller may share
+function copyWaitStrategy<T extends WaitStrategy>(strategy: T): T {
+  const copy = Object.assign(Object.create(Object.getPrototypeOf(strategy)), strategy);
+  // Composite strategies (Wait.forAll) pass their timeout on to each member
+  if (Array.isArray(copy.waitStrategies)) {
+    copy.waitStrategies = copy.waitStrategies.map(copyWaitStrategy);
+  }
+  return copy;
+}
+
+/**
+ * Delegating wait strategy that times readiness and remembers why a container failed to become ready
+ *
+ * A startup timeout set on it applies to a copy of the inner strategy, never the inner one itself.
+ */
+export class TrackedWaitStrategy implements WaitStrategy {
+  failure: Error | null = null;
+  recentLogs: string[] = [];
+  private startupTimeout: number | undefined;
+
+  constructor(
+    readonly inner: WaitStrategy,
+    private readonly target: string,
+  ) {}
+
+  async waitUntilReady(...args: Parameters<WaitStrategy["waitUntilReady"]>): Promise<void> {
+    const startedAt = Date.now();
+    const fields = {
+      container: this.target,
+      containerId: args[0].id,
+      strategy: this.inner.constructor.name,
+    };
+
+    const strategy =
+      this.startupTimeout === undefined
+        ? this.inner
+        : copyWaitStrategy(this.inner).withStartupTimeout(this.startupTimeout);
+
+    log.debug("Waiting for container to be ready", fields);
+    try {
+      await strategy.waitUntilReady(...args);
+      log.info("Container is ready", { ...fields, durationMs: Date.now() - startedAt });
+    } catch (error) {
+      this.failure = error instanceof Error ? error : new Error(String(error));
+      log.error("Container failed to become ready", {
+        ...fields,
+        durationMs: Date.now() - startedAt,
+        error: this.failure.message,
+      });
+      // Capture output now, the container is removed as soon as this rejects
+      this.recentLogs = await readLogLines(args[0].id, { tail: RECENT_LOG_LINES })
+        .then((lines) => lines.map((line) => line.text))
+        .catch(() => []);
+      throw error;
+    }
+  }
+
+  withStartupTimeout(startupTimeoutMs: number): this {
+    this.startupTimeout = startupTimeoutMs;
+    return this;
+  }
+
+  isStartupTimeoutSet(): boolean {
+    return this.startupTimeout !== undefined || this.inner.isStartupTimeoutSet();
+  }
+
+  getStartupTimeout(): number {
+    return this.startupTimeout ?? this.inner.getStartupTimeout();
+  }
+}
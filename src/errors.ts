@@ -1,4 +1,5 @@
 import { createCustomError } from "@fuzzy-street/errors";
+import { userInfo } from "node:os";
 
 /**
  * =====================================
@@ -116,9 +117,17 @@ export const ContainerLifecycleError = createCustomError<
     currentState?: "starting" | "running" | "stopped" | "failed" | "unknown";
     expectedState?: "starting" | "running" | "stopped" | "failed";
     containerId?: string;
+    /**
+     * Most recent container output, when it was captured
+     */
+    recentLogs?: string[];
   },
   typeof ContainerError
->("ContainerLifecycleError", ["currentState", "expectedState", "containerId"], ContainerError);
+>(
+  "ContainerLifecycleError",
+  ["currentState", "expectedState", "containerId", "recentLogs"],
+  ContainerError,
+);
 
 /**
  * Container not started yet
@@ -163,16 +172,87 @@ export const ContainerTimeoutError = createCustomError<
   typeof ContainerLifecycleError
 >("ContainerTimeoutError", ["timeoutMs", "waitStrategy"], ContainerLifecycleError);
 
+/**
+ * A single resource that failed to clean up
+ */
+export interface CleanupFailure {
+  resource: string;
+  operation: string;
+  error: Error;
+}
+
 /**
  * Container cleanup failed
+ * Cleanup attempts every resource, so this carries every underlying failure
+ * (`failures` with resource and operation, `errors` in AggregateError style).
  */
 export const ContainerCleanupError = createCustomError<
   {
     reason: string;
     containerId?: string;
+    failures?: CleanupFailure[];
+    errors?: Error[];
+  },
+  typeof ContainerLifecycleError
+>(
+  "ContainerCleanupError",
+  ["reason", "containerId", "failures", "errors"],
+  ContainerLifecycleError,
+);
+
+/**
+ * Resetting services between tests failed
+ * Every service is reset, so this carries every failure (`failures` with the service
+ * and what failed, `errors` in AggregateError style).
+ */
+export const ContainerResetError = createCustomError<
+  {
+    failures: CleanupFailure[];
+    errors: Error[];
+  },
+  typeof ContainerLifecycleError
+>("ContainerResetError", ["failures", "errors"], ContainerLifecycleError);
+
+/**
+ * A single failed start attempt
+ */
+export interface RetryAttempt {
+  attempt: number;
+  durationMs: number;
+  error: Error;
+}
+
+/**
+ * Start still failed after retrying
+ * Carries every attempt (`attempts` with timing, `errors` in AggregateError style);
+ * the last attempt's error is the parent.
+ */
+export const ContainerRetryError = createCustomError<
+  {
+    attempts: RetryAttempt[];
+    errors: Error[];
+  },
+  typeof ContainerLifecycleError
+>("ContainerRetryError", ["attempts", "errors"], ContainerLifecycleError);
+
+/**
+ * Orchestrated container failed to start
+ * Captures the failing node, the dependencies it was waiting on and the
+ * containers that were rolled back as a result, with any that failed to clean up.
+ */
+export const OrchestrationError = createCustomError<
+  {
+    failedNode: string;
+    upstream: string[];
+    rolledBack: string[];
+    rollbackFailures?: CleanupFailure[];
   },
   typeof ContainerLifecycleError
->("ContainerCleanupError", ["reason", "containerId"], ContainerLifecycleError);
+>(
+  "OrchestrationError",
+  ["failedNode", "upstream", "rolledBack", "rollbackFailures"],
+  ContainerLifecycleError,
+);
 
 // ============================================
 // Docker Daemon Errors
@@ -464,17 +544,29 @@ export const FilePermissionError = createCustomError<
 // Validation Errors
 // ============================================
 
+/**
+ * A single invalid configuration value
+ */
+export interface ValidationIssue {
+  field: string;
+  value: unknown;
+  constraint: string;
+}
+
 /**
  * Input validation errors
+ * Validation collects every problem, so `issues` lists all of them;
+ * `field`, `value` and `constraint` describe the first.
  */
 export const ValidationError = createCustomError<
   {
     field: string;
     value: unknown;
     constraint: string;
+    issues?: ValidationIssue[];
   },
   typeof ContainerError
->("ValidationError", ["field", "value", "constraint"], ContainerError);
+>("ValidationError", ["field", "value", "constraint", "issues"], ContainerError);
 
 // ============================================
 // Helper Functions
@@ -518,7 +610,7 @@ export function createNotStartedError(containerName: string, attemptedOperation:
 /**
  * Create Docker not available error with helpful message
  */
-export function createDockerNotAvailableError(socketPath?: string) {
+export function createDockerNotAvailableError(socketPath?: string, parent?: Error) {
   return new DockerNotAvailableError({
     message: `Docker daemon is not accessible${socketPath ? ` at ${socketPath}` : ""}. Make sure Docker is running.`,
     cause: {
@@ -527,13 +619,43 @@ export function createDockerNotAvailableError(socketPath?: string) {
       reason: "Connection refused or socket not found",
       suggestion: "Start Docker Desktop or run: sudo systemctl start docker",
     },
+    parent,
+  });
+}
+
+/**
+ * Create Docker permission error with helpful message
+ */
+export function createDockerPermissionError(socketPath: string, reason: string, parent?: Error) {
+  let currentUser: string | undefined;
+  try {
+    currentUser = userInfo().username;
+  } catch {
+    currentUser = undefined;
+  }
+
+  return new DockerPermissionError({
+    message: `Permission denied connecting to the Docker daemon at ${socketPath}`,
+    cause: {
+      dockerHost: process.env.DOCKER_HOST,
+      reason,
+      requiredPermission: `read and write access to ${socketPath}`,
+      currentUser,
+      suggestion:
+        "Add your user to the docker group: sudo usermod -aG docker $USER (then log in again)",
+    },
+    parent,
   });
 }
 
 /**
  * Create image not found error with helpful message
  */
-export function createImageNotFoundError(imageName: string, tag: string = "latest") {
+export function createImageNotFoundError(
+  imageName: string,
+  tag: string = "latest",
+  parent?: Error,
+) {
   return new ImageNotFoundError({
     message: `Image '${imageName}:${tag}' not found locally or in registry`,
     cause: {
@@ -542,6 +664,7 @@ export function createImageNotFoundError(imageName: string, tag: string = "lates
       searchedIn: ["local cache", "Docker Hub"],
       suggestion: `Pull the image manually: docker pull ${imageName}:${tag}`,
     },
+    parent,
   });
 }
 
@@ -552,6 +675,7 @@ export function createTimeoutError(
   containerName: string,
   timeoutMs: number,
   waitStrategy?: string,
+  parent?: Error,
 ) {
   return new ContainerTimeoutError({
     message: `Container '${containerName}' failed to start within ${timeoutMs}ms${waitStrategy ? ` using ${waitStrategy}` : ""}`,
@@ -563,6 +687,100 @@ export function createTimeoutError(
       expectedState: "running",
       operation: "start",
     },
+    parent,
+  });
+}
+
+/**
+ * Create cleanup error aggregating every failed resource
+ */
+export function createCleanupError(
+  resourceName: string,
+  failures: CleanupFailure[],
+  containerId?: string,
+) {
+  const reason = failures
+    .map((failure) => `${failure.resource} (${failure.operation}): ${failure.error.message}`)
+    .join("; ");
+
+  return new ContainerCleanupError({
+    message: `Failed to clean up ${failures.length} resource(s) of '${resourceName}': ${reason}`,
+    cause: {
+      containerName: resourceName,
+      containerId,
+      reason,
+      failures,
+      errors: failures.map((failure) => failure.error),
+      currentState: "unknown",
+      expectedState: "stopped",
+      operation: "cleanup",
+    },
+    parent: failures[0]?.error,
+  });
+}
+
+/**
+ * Create validation error listing every invalid value
+ */
+export function createValidationError(subject: string, issues: ValidationIssue[]) {
+  const details = issues
+    .map((issue) => `${issue.field} (${JSON.stringify(issue.value)}): ${issue.constraint}`)
+    .join("; ");
+
+  return new ValidationError({
+    message: `Invalid configuration for '${subject}', ${issues.length} problem(s): ${details}`,
+    cause: {
+      containerName: subject,
+      field: issues[0]?.field ?? "",
+      value: issues[0]?.value,
+      constraint: issues[0]?.constraint ?? "",
+      issues,
+      operation: "validate",
+    },
+  });
+}
+
+/**
+ * Create reset error aggregating every service that failed to reset
+ */
+export function createResetError(resourceName: string, failures: CleanupFailure[]) {
+  const reason = failures
+    .map((failure) => `${failure.resource} (${failure.operation}): ${failure.error.message}`)
+    .join("; ");
+
+  return new ContainerResetError({
+    message: `Failed to reset ${failures.length} service(s) of '${resourceName}': ${reason}`,
+    cause: {
+      containerName: resourceName,
+      failures,
+      errors: failures.map((failure) => failure.error),
+      currentState: "unknown",
+      expectedState: "running",
+      operation: "reset",
+    },
+    parent: failures[0]?.error,
+  });
+}
+
+/**
+ * Create retry error reporting every failed attempt
+ */
+export function createRetryError(resourceName: string, attempts: RetryAttempt[]) {
+  const summary = attempts
+    .map((attempt) => `#${attempt.attempt} (${attempt.durationMs}ms): ${attempt.error.message}`)
+    .join("; ");
+
+  return new ContainerRetryError({
+    message: `Failed to start '${resourceName}' after ${attempts.length} attempt(s): ${summary}`,
+    cause: {
+      containerName: resourceName,
+      attempts,
+      errors: attempts.map((attempt) => attempt.error),
+      currentState: "failed",
+      expectedState: "running",
+      operation: "start",
+    },
+    parent: attempts[attempts.length - 1]?.error,
   });
 }
 
@@ -572,14 +790,24 @@ export function createTimeoutError(
  * - CONFIG: Configuration errors
  * - NOT_STARTED: Container not started errors
  * - DOCKER_NOT_AVAILABLE: Docker daemon not available errors
+ * - DOCKER_PERMISSION: Docker socket permission errors
  * - IMAGE_NOT_FOUND: Image not found errors
  * - TIMEOUT: Container timeout errors
+ * - CLEANUP: Aggregated cleanup errors
+ * - RESET: Aggregated service reset failures
+ * - RETRY: Aggregated start attempts
+ * - VALIDATION: Aggregated configuration problems
  *
  */
 export const Errors = {
   CONFIG: createConfigError,
   NOT_STARTED: createNotStartedError,
   DOCKER_NOT_AVAILABLE: createDockerNotAvailableError,
+  DOCKER_PERMISSION: createDockerPermissionError,
   IMAGE_NOT_FOUND: createImageNotFoundError,
   TIMEOUT: createTimeoutError,
+  CLEANUP: createCleanupError,
+  RESET: createResetError,
+  RETRY: createRetryError,
+  VALIDATION: createValidationError,
 } as const satisfies Record<string, (...args: any[]) => Error>;
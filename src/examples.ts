@@ -1,4 +1,4 @@
-import { useContainer, useCompose } from "./index";
+import { useContainer, useCompose, useOrchestrator } from "./index";
 import { Wait } from "testcontainers";
 import { BlobServiceClient } from "@azure/storage-blob";
 
@@ -179,6 +179,35 @@ async function example6_reuse() {
   await second.cleanup(); // Now it can be removed
 }
 
+// ============================================
+// Example 7: Orchestrated Containers with Dependencies
+// ============================================
+async function example7_orchestrator() {
+  console.log("Example 7: Orchestrated Containers");
+
+  // postgres and redis start in parallel, nginx waits for both
+  const { containers, order, cleanup } = await useOrchestrator()
+    .withContainer(
+      "postgres",
+      useContainer("postgres:14")
+        .withPort(5432)
+        .withEnv({ POSTGRES_PASSWORD: "pass" })
+        .withWaitStrategy(Wait.forLogMessage("database system is ready to accept connections", 2)),
+    )
+    .withContainer("redis", useContainer("redis:latest").withPort(6379))
+    .withContainer("nginx", useContainer("nginx:latest").withPort(80), {
+      dependsOn: ["postgres", "redis"],
+    })
+    .start();
+
+  console.log(`Start order: ${order.join(" -> ")}`);
+  console.log(`Postgres: ${containers.postgres.host}:${containers.postgres.ports[5432]}`);
+  console.log(`Nginx: ${containers.nginx.host}:${containers.nginx.ports[80]}`);
+
+  // Stops nginx first, then redis and postgres
+  await cleanup();
+}
+
 // ============================================
 // Run all examples
 // ============================================
@@ -191,6 +220,7 @@ async function runAllExamples() {
       // { fn: example4_azurite, name: "Example 4: Azurite Storage Emulator" },
       { fn: example5_waitStrategy, name: "Example 5: Custom Wait Strategy" },
       { fn: example6_reuse, name: "Example 6: Container Reuse" },
+      { fn: example7_orchestrator, name: "Example 7: Orchestrated Containers" },
     ];
 
     for (const { fn, name } of examples) {
@@ -0,0 +1,227 @@
+import type { ContainerController } from "~/core/container";
+import { type CleanupFailure, createCleanupError, createNotStartedError } from "~/errors";
+import type { BaseRecord, ContainerService } from "~/types";
+
+/**
+ * Anything a fixture can start: `useContainer()`, `useCompose()` and `useOrchestrator()` builders,
+ * or a container service started standalone
+ */
+export type FixtureSource =
+  | ContainerService<BaseRecord>
+  | { start(): Promise<{ cleanup: () => Promise<void> }> };
+
+/**
+ * What tests receive: the controller returned by `start()`, or a service's connection info
+ */
+export type FixtureValue<S> = S extends ContainerService<infer T>
+  ? T
+  : S extends { start(): Promise<infer C> }
+    ? C
+    : never;
+
+/**
+ * A source, or a factory creating a fresh one each time the fixture starts
+ */
+export type FixtureInput<S extends FixtureSource> = S | (() => S | Promise<S>);
+
+export interface FixtureOptions {
+  /**
+   * Name used in error messages
+   */
+  name?: string;
+  /**
+   * Startup timeout for the runner hook in ms
+   */
+  timeout?: number;
+  /**
+   * Call `reset()` before every test, where the runner adapter supports it
+   */
+  resetBeforeEach?: boolean;
+}
+
+export interface Fixture<V> {
+  readonly name: string;
+  /**
+   * The started value; throws if read before the fixture has started
+   */
+  readonly value: V;
+  /**
+   * Serializable connection details (host/ports, compose services or service connection info)
+   */
+  readonly connectionInfo: unknown;
+  isStarted(): boolean;
+  /**
+   * Start once; concurrent and repeated calls share the same startup
+   */
+  start(): Promise<V>;
+  /**
+   * Reset what was started: `resetAll()` of compose and orchestrator controllers,
+   * `reset()` of containers and services
+   */
+  reset(): Promise<void>;
+  /**
+   * Tear down whatever was started; safe to call more than once or before start
+   */
+  cleanup(): Promise<void>;
+}
+
+function isContainerService(source: FixtureSource): source is ContainerService<BaseRecord> {
+  return "getConnectionInfo" in source;
+}
+
+function toConnectionInfo(value: unknown): unknown {
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+
+  // Compose controller
+  if ("environment" in value && "services" in value) {
+    return value.services;
+  }
+
+  // Orchestrator controller
+  if ("containers" in value && "order" in value) {
+    const containers = value.containers as Record<string, ContainerController>;
+    return Object.fromEntries(
+      Object.entries(containers).map(([name, controller]) => [name, toConnectionInfo(controller)]),
+    );
+  }
+
+  // Container controller
+  if ("instance" in value && "host" in value && "ports" in value) {
+    return { host: value.host, ports: value.ports };
+  }
+
+  return value;
+}
+
+async function resetController(controller: object): Promise<void> {
+  if ("resetAll" in controller && typeof controller.resetAll === "function") {
+    await controller.resetAll();
+  } else if ("reset" in controller && typeof controller.reset === "function") {
+    await controller.reset();
+  }
+}
+
+/**
+ * Create a runner-agnostic fixture; the runner adapters wire `start` and `cleanup` into hooks
+ */
+export function createFixture<S extends FixtureSource>(
+  input: FixtureInput<S>,
+  options: FixtureOptions = {},
+): Fixture<FixtureValue<S>> {
+  const name = options.name ?? "fixture";
+  let starting: Promise<FixtureValue<S>> | null = null;
+  let started: {
+    value: FixtureValue<S>;
+    reset: () => Promise<void>;
+    cleanup: () => Promise<void>;
+  } | null = null;
+
+  const run = async (): Promise<FixtureValue<S>> => {
+    const source = typeof input === "function" ? await input() : input;
+
+    if (isContainerService(source)) {
+      await source.start();
+      try {
+        const value = source.getConnectionInfo() as FixtureValue<S>;
+        started = {
+          value,
+          reset: async () => await source.reset?.(),
+          cleanup: () => source.stop(),
+        };
+        return value;
+      } catch (error) {
+        await source.stop().catch(() => {});
+        throw error;
+      }
+    }
+
+    const controller = await source.start();
+    started = {
+      value: controller as FixtureValue<S>,
+      reset: () => resetController(controller),
+      cleanup: () => controller.cleanup(),
+    };
+    return started.value;
+  };
+
+  return {
+    name,
+    get value() {
+      if (!started) {
+        throw createNotStartedError(name, "read fixture value");
+      }
+      return started.value;
+    },
+    get connectionInfo() {
+      return toConnectionInfo(this.value);
+    },
+    isStarted: () => started !== null,
+    start() {
+      starting ??= run().catch((error) => {
+        starting = null;
+        throw error;
+      });
+      return starting;
+    },
+    async reset() {
+      if (!started) {
+        throw createNotStartedError(name, "reset fixture");
+      }
+      await started.reset();
+    },
+    async cleanup() {
+      // Let an in-flight start settle so its container is not leaked
+      await starting?.catch(() => {});
+
+      const current = started;
+      started = null;
+      starting = null;
+
+      if (current) {
+        await current.cleanup();
+      }
+    },
+  };
+}
+
+/**
+ * Start fixtures in order; if one fails, the ones already started are torn down
+ */
+export async function startFixtures(fixtures: Array<Fixture<unknown>>): Promise<void> {
+  const started: Array<Fixture<unknown>> = [];
+
+  try {
+    for (const fixture of fixtures) {
+      await fixture.start();
+      started.push(fixture);
+    }
+  } catch (error) {
+    await cleanupFixtures(started).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Clean up fixtures in reverse order, attempting every one before reporting failures
+ */
+export async function cleanupFixtures(fixtures: Array<Fixture<unknown>>): Promise<void> {
+  const failures: CleanupFailure[] = [];
+
+  for (const fixture of [...fixtures].reverse()) {
+    try {
+      await fixture.cleanup();
+    } catch (error) {
+      failures.push({
+        resource: fixture.name,
+        operation: "cleanup",
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  }
+
+  if (failures.length > 0) {
+    throw createCleanupError("fixtures", failures);
+  }
+}
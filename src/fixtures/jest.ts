@@ -0,0 +1,77 @@
+import {
+  type Fixture,
+  type FixtureInput,
+  type FixtureSource,
+  cleanupFixtures,
+  createFixture,
+  startFixtures,
+} from "./fixture";
+
+/**
+ * The shape of a Jest environment class (e.g. the default export of `jest-environment-node`)
+ */
+export type JestEnvironmentClass = new (
+  ...args: any[]
+) => {
+  global: Record<string, any>;
+  setup(): Promise<void>;
+  teardown(): Promise<void>;
+};
+
+export interface JestEnvironmentOptions {
+  /**
+   * Global the fixture values are exposed on (default: `__FIXTURES__`)
+   */
+  globalName?: string;
+}
+
+/**
+ * Extend a Jest environment so every test file gets its own started fixtures
+ *
+ * @example
+ * ```typescript
+ * // jest.environment.ts
+ * import NodeEnvironment from "jest-environment-node";
+ * import { createJestEnvironment } from "@fuzzy-street/dockhand/fixtures/jest";
+ *
+ * export default createJestEnvironment(NodeEnvironment, {
+ *   cache: () => useContainer("redis:7-alpine").withPort(6379),
+ * });
+ *
+ * // in a test
+ * const { cache } = globalThis.__FIXTURES__;
+ * ```
+ */
+export function createJestEnvironment<B extends JestEnvironmentClass>(
+  Base: B,
+  fixtures: Record<string, FixtureInput<FixtureSource>>,
+  options: JestEnvironmentOptions = {},
+) {
+  const globalName = options.globalName ?? "__FIXTURES__";
+  const running = new WeakMap<object, Array<Fixture<unknown>>>();
+
+  return class extends Base {
+    async setup(): Promise<void> {
+      await super.setup();
+
+      const started = Object.entries(fixtures).map(([name, input]) =>
+        createFixture(input, { name }),
+      );
+      running.set(this, started);
+
+      await startFixtures(started);
+      this.global[globalName] = Object.fromEntries(
+        started.map((fixture) => [fixture.name, fixture.value]),
+      );
+    }
+
+    async teardown(): Promise<void> {
+      try {
+        await cleanupFixtures(running.get(this) ?? []);
+      } finally {
+        running.delete(this);
+        await super.teardown();
+      }
+    }
+  };
+}
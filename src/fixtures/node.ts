@@ -0,0 +1,47 @@
+import { after, before, beforeEach } from "node:test";
+import {
+  type Fixture,
+  type FixtureInput,
+  type FixtureOptions,
+  type FixtureSource,
+  type FixtureValue,
+  createFixture,
+} from "./fixture";
+
+/**
+ * Register a fixture with `node:test` hooks
+ *
+ * Called at the top level of a test file it is shared by the whole file; called inside
+ * `describe()` it is scoped to that suite. Cleanup runs in `after` even when tests throw.
+ * With `resetBeforeEach`, the fixture is reset in `beforeEach` so every test starts clean.
+ *
+ * @example
+ * ```typescript
+ * import { containerFixture } from "@fuzzy-street/dockhand/fixtures/node";
+ *
+ * const redis = containerFixture(() => useContainer("redis:7-alpine").withPort(6379));
+ *
+ * test("connects", () => {
+ *   const { host, ports } = redis.value;
+ * });
+ * ```
+ */
+export function containerFixture<S extends FixtureSource>(
+  input: FixtureInput<S>,
+  options: FixtureOptions = {},
+): Fixture<FixtureValue<S>> {
+  const fixture = createFixture(input, options);
+
+  before(
+    async () => {
+      await fixture.start();
+    },
+    { timeout: options.timeout },
+  );
+  if (options.resetBeforeEach) {
+    beforeEach(() => fixture.reset());
+  }
+  after(() => fixture.cleanup());
+
+  return fixture;
+}
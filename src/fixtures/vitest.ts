@@ -0,0 +1,48 @@
+import {
+  type FixtureInput,
+  type FixtureSource,
+  cleanupFixtures,
+  createFixture,
+  startFixtures,
+} from "./fixture";
+
+/**
+ * The part of Vitest's global setup context the adapter uses
+ */
+export interface VitestGlobalSetupContext {
+  provide(key: string, value: unknown): void;
+}
+
+/**
+ * Build a Vitest `globalSetup` that starts fixtures once per run
+ *
+ * Each fixture's serializable connection info is provided under its key; read it in tests
+ * with `inject(key)`. The returned teardown removes everything, even after failing tests.
+ *
+ * @example
+ * ```typescript
+ * // vitest.global-setup.ts
+ * import { vitestGlobalSetup } from "@fuzzy-street/dockhand/fixtures/vitest";
+ *
+ * export default vitestGlobalSetup({
+ *   db: () => new PostgresService(),
+ *   cache: () => useContainer("redis:7-alpine").withPort(6379),
+ * });
+ *
+ * // in a test
+ * const db = inject("db");
+ * ```
+ */
+export function vitestGlobalSetup(fixtures: Record<string, FixtureInput<FixtureSource>>) {
+  return async (context: VitestGlobalSetupContext): Promise<() => Promise<void>> => {
+    const started = Object.entries(fixtures).map(([name, input]) => createFixture(input, { name }));
+
+    await startFixtures(started);
+
+    for (const fixture of started) {
+      context.provide(fixture.name, fixture.connectionInfo);
+    }
+
+    return () => cleanupFixtures(started);
+  };
+}
@@ -1,4 +1,21 @@
+export * from "./core/base";
+export * from "./core/classify";
 export * from "./core/compose";
+export * from "./core/compose-network";
 export * from "./core/container";
+export * from "./core/definition";
+export * from "./core/exec";
+export type { ContainerFileEntry } from "./core/files";
+export * from "./core/hooks";
+export { HOST_ALIAS, exposeHostPorts } from "./core/host-ports";
+export * from "./core/logger";
+export * from "./core/logs";
+export * from "./core/network";
+export * from "./core/orchestrator";
+export { type DockerCheckResult, checkDocker, ensureDocker } from "./core/preflight";
+export * from "./core/registry";
+export * from "./core/validate";
+export * from "./fixtures";
+export * from "./services";
 export * from "./types";
-export * from "./errors";
\ No newline at end of file
+export * from "./errors";
@@ -0,0 +1,90 @@
+import { Wait, type WaitStrategy } from "testcontainers";
+import { type PresetOptions, PresetService } from "./preset";
+
+export interface AzuriteConnectionInfo {
+  [key: string]: unknown;
+  host: string;
+  blobPort: number;
+  queuePort: number;
+  tablePort: number;
+  accountName: string;
+  accountKey: string;
+  blobEndpoint: string;
+  queueEndpoint: string;
+  tableEndpoint: string;
+  connectionString: string;
+}
+
+const BLOB_PORT = 10000;
+const QUEUE_PORT = 10001;
+const TABLE_PORT = 10002;
+
+// Well-known development storage account baked into Azurite
+const ACCOUNT_NAME = "devstoreaccount1";
+const ACCOUNT_KEY =
+  "Eby8vdM02xNOcqFlqUwJPLlmEtlCDXJ1OUzFT50uSRZ6IFsuFq2UVErCz4I6tq/K1SZFPTOtr/KBHBeksoGMGw==";
+
+/**
+ * Azurite (Azure Storage emulator) preset
+ */
+export class AzuriteService extends PresetService<AzuriteConnectionInfo> {
+  constructor(name = "azurite", options: PresetOptions = {}) {
+    super(
+      name,
+      options.image ?? "mcr.microsoft.com/azure-storage/azurite",
+      [BLOB_PORT, QUEUE_PORT, TABLE_PORT],
+      options.env,
+    );
+  }
+
+  getWaitStrategy(): WaitStrategy {
+    return Wait.forAll([
+      Wait.forLogMessage("Azurite Blob service is successfully listening"),
+      Wait.forLogMessage("Azurite Queue service is successfully listening"),
+      Wait.forLogMessage("Azurite Table service is successfully listening"),
+    ]);
+  }
+
+  getEnvironmentVariables(): Record<string, string> {
+    return { ...this.extraEnv };
+  }
+
+  getConnectionInfo(): AzuriteConnectionInfo {
+    this.validateStarted();
+    const host = this.getHost();
+    const blobPort = this.getMappedPort(BLOB_PORT);
+    const queuePort = this.getMappedPort(QUEUE_PORT);
+    const tablePort = this.getMappedPort(TABLE_PORT);
+
+    const blobEndpoint = `http://${host}:${blobPort}/${ACCOUNT_NAME}`;
+    const queueEndpoint = `http://${host}:${queuePort}/${ACCOUNT_NAME}`;
+    const tableEndpoint = `http://${host}:${tablePort}/${ACCOUNT_NAME}`;
+
+    return {
+      host,
+      blobPort,
+      queuePort,
+      tablePort,
+      accountName: ACCOUNT_NAME,
+      accountKey: ACCOUNT_KEY,
+      blobEndpoint,
+      queueEndpoint,
+      tableEndpoint,
+      connectionString: [
+        "DefaultEndpointsProtocol=http",
+        `AccountName=${ACCOUNT_NAME}`,
+        `AccountKey=${ACCOUNT_KEY}`,
+        `BlobEndpoint=${blobEndpoint}`,
+        `QueueEndpoint=${queueEndpoint}`,
+        `TableEndpoint=${tableEndpoint}`,
+      ].join(";"),
+    };
+  }
+
+  /**
+   * Azure Storage connection string for all three services
+   */
+  getConnectionUrl(): string {
+    return this.getConnectionInfo().connectionString;
+  }
+}
@@ -0,0 +1,9 @@
+export * from "./preset";
+export * from "./azurite";
+export * from "./kafka";
+export * from "./minio";
+export * from "./mongodb";
+export * from "./mysql";
+export * from "./postgres";
+export * from "./rabbitmq";
+export * from "./redis";
@@ -0,0 +1,179 @@
+import {
+  type StartedTestContainer,
+  Wait,
+  type WaitStrategy,
+  getContainerRuntimeClient,
+} from "testcontainers";
+import type { ContainerController, StandaloneContainer } from "~/core/container";
+import { type PresetOptions, PresetService } from "./preset";
+
+export interface KafkaOptions extends PresetOptions {
+  /**
+   * How long to wait for the broker after the starter script is copied in
+   */
+  startupTimeout?: number;
+}
+
+export interface KafkaConnectionInfo {
+  [key: string]: unknown;
+  host: string;
+  port: number;
+  bootstrapServers: string;
+  brokers: string[];
+  url: string;
+}
+
+const KAFKA_PORT = 9092;
+const BROKER_PORT = 9093;
+const CONTROLLER_PORT = 9094;
+
+const STARTER_SCRIPT = "/tmp/testcontainers_start.sh";
+const STARTER_MARKER = "Waiting for starter script";
+const READY_MESSAGE = /Kafka Server started/;
+const TOPICS_SCRIPT = "/opt/kafka/bin/kafka-topics.sh";
+const LISTENER = /^([^:]+):\/\/(.*):(\d+)$/;
+
+/**
+ * Address of the inter-broker listener as seen from inside the broker's own container
+ *
+ * Falls back to the first non-controller listener, then to Kafka's default port.
+ */
+function getInternalBootstrapServer(env: Record<string, string | undefined>): string {
+  const controllers = (env.KAFKA_CONTROLLER_LISTENER_NAMES ?? "").split(",");
+  const listeners = (env.KAFKA_LISTENERS ?? "").split(",").flatMap((listener) => {
+    const match = listener.trim().match(LISTENER);
+    return match ? [{ name: match[1], host: match[2], port: match[3] }] : [];
+  });
+
+  const listener =
+    listeners.find((candidate) => candidate.name === env.KAFKA_INTER_BROKER_LISTENER_NAME) ??
+    listeners.find((candidate) => !controllers.includes(candidate.name));
+  if (!listener) return `localhost:${KAFKA_PORT}`;
+
+  // An empty or wildcard host binds every interface, loopback included
+  const host = ["", "0.0.0.0", "[::]"].includes(listener.host) ? "localhost" : listener.host;
+  return `${host}:${listener.port}`;
+}
+
+/**
+ * Single-node Kafka preset running in KRaft mode (no ZooKeeper)
+ *
+ * Standalone, the broker only starts once the mapped port is known so clients
+ * outside Docker receive a reachable advertised listener
+ */
+export class KafkaService extends PresetService<KafkaConnectionInfo> {
+  private readonly startupTimeout: number;
+  // Taken from the running container, whose compose file may configure other listeners
+  private internalBootstrapServer: string | null = null;
+
+  constructor(name = "kafka", options: KafkaOptions = {}) {
+    super(name, options.image ?? "apache/kafka:3.8.0", [KAFKA_PORT], options.env);
+    this.startupTimeout = options.startupTimeout ?? 60_000;
+  }
+
+  protected configure(container: StandaloneContainer): StandaloneContainer {
+    return container
+      .withEntrypoint(
+        "sh",
+        "-c",
+        `echo '${STARTER_MARKER}'; while [ ! -f ${STARTER_SCRIPT} ]; do sleep 0.1; done; ${STARTER_SCRIPT}`,
+      )
+      .withWaitStrategy(Wait.forLogMessage(STARTER_MARKER));
+  }
+
+  protected async afterStart(controller: ContainerController): Promise<void> {
+    const { instance } = controller;
+    const advertised = [
+      `PLAINTEXT://${instance.getHost()}:${instance.getMappedPort(KAFKA_PORT)}`,
+      `BROKER://${instance.getHostname()}:${BROKER_PORT}`,
+    ].join(",");
+
+    await instance.copyContentToContainer([
+      {
+        content: `#!/bin/bash\nexport KAFKA_ADVERTISED_LISTENERS=${advertised}\n/etc/kafka/docker/run\n`,
+        target: STARTER_SCRIPT,
+        mode: 0o755,
+      },
+    ]);
+
+    await controller.logs.waitFor(READY_MESSAGE, { timeout: this.startupTimeout });
+  }
+
+  /**
+   * Read the listeners the container was started with, standalone or from a compose file
+   */
+  async initializeFromContainer(container: StartedTestContainer): Promise<void> {
+    super.initializeFromContainer(container);
+
+    const client = await getContainerRuntimeClient();
+    const { Config } = await client.container.getById(container.getId()).inspect();
+    const env = Object.fromEntries(
+      (Config.Env ?? []).map((entry) => {
+        const separator = entry.indexOf("=");
+        return [entry.slice(0, separator), entry.slice(separator + 1)];
+      }),
+    );
+    this.internalBootstrapServer = getInternalBootstrapServer(env);
+  }
+
+  /**
+   * Delete every topic apart from Kafka's internal ones; auto-created topics come back on first use
+   */
+  protected getResetCommands(): string[][] {
+    return [
+      [
+        TOPICS_SCRIPT,
+        "--bootstrap-server",
+        this.internalBootstrapServer ?? getInternalBootstrapServer(this.getEnvironmentVariables()),
+        "--delete",
+        "--if-exists",
+        "--topic",
+        "(?!__).*",
+      ],
+    ];
+  }
+
+  getWaitStrategy(): WaitStrategy {
+    return Wait.forLogMessage(READY_MESSAGE);
+  }
+
+  getEnvironmentVariables(): Record<string, string> {
+    return {
+      KAFKA_NODE_ID: "1",
+      KAFKA_PROCESS_ROLES: "broker,controller",
+      KAFKA_LISTENERS: `PLAINTEXT://:${KAFKA_PORT},BROKER://:${BROKER_PORT},CONTROLLER://:${CONTROLLER_PORT}`,
+      KAFKA_LISTENER_SECURITY_PROTOCOL_MAP:
+        "PLAINTEXT:PLAINTEXT,BROKER:PLAINTEXT,CONTROLLER:PLAINTEXT",
+      KAFKA_CONTROLLER_LISTENER_NAMES: "CONTROLLER",
+      KAFKA_CONTROLLER_QUORUM_VOTERS: `1@localhost:${CONTROLLER_PORT}`,
+      KAFKA_INTER_BROKER_LISTENER_NAME: "BROKER",
+      KAFKA_OFFSETS_TOPIC_REPLICATION_FACTOR: "1",
+      KAFKA_TRANSACTION_STATE_LOG_REPLICATION_FACTOR: "1",
+      KAFKA_TRANSACTION_STATE_LOG_MIN_ISR: "1",
+      KAFKA_GROUP_INITIAL_REBALANCE_DELAY_MS: "0",
+      ...this.extraEnv,
+    };
+  }
+
+  getConnectionInfo(): KafkaConnectionInfo {
+    this.validateStarted();
+    const host = this.getHost();
+    const port = this.getMappedPort(KAFKA_PORT);
+    const bootstrapServers = `${host}:${port}`;
+
+    return {
+      host,
+      port,
+      bootstrapServers,
+      brokers: [bootstrapServers],
+      url: bootstrapServers,
+    };
+  }
+
+  /**
+   * Bootstrap servers (`host:port`)
+   */
+  getConnectionUrl(): string {
+    return this.getConnectionInfo().bootstrapServers;
+  }
+}
@@ -0,0 +1,73 @@
+import { Wait, type WaitStrategy } from "testcontainers";
+import type { StandaloneContainer } from "~/core/container";
+import { type PresetOptions, PresetService } from "./preset";
+
+export interface MinioOptions extends PresetOptions {
+  accessKey?: string;
+  secretKey?: string;
+}
+
+export interface MinioConnectionInfo {
+  [key: string]: unknown;
+  host: string;
+  port: number;
+  consolePort: number;
+  accessKey: string;
+  secretKey: string;
+  url: string;
+  consoleUrl: string;
+}
+
+const API_PORT = 9000;
+const CONSOLE_PORT = 9001;
+
+/**
+ * MinIO (S3-compatible object storage) preset
+ */
+export class MinioService extends PresetService<MinioConnectionInfo> {
+  private readonly accessKey: string;
+  private readonly secretKey: string;
+
+  constructor(name = "minio", options: MinioOptions = {}) {
+    super(name, options.image ?? "minio/minio:latest", [API_PORT, CONSOLE_PORT], options.env);
+    this.accessKey = options.accessKey ?? "minioadmin";
+    this.secretKey = options.secretKey ?? "minioadmin";
+  }
+
+  protected configure(container: StandaloneContainer): StandaloneContainer {
+    return container.withCommand("server", "/data", "--console-address", `:${CONSOLE_PORT}`);
+  }
+
+  getWaitStrategy(): WaitStrategy {
+    return Wait.forHttp("/minio/health/live", API_PORT);
+  }
+
+  getEnvironmentVariables(): Record<string, string> {
+    return {
+      MINIO_ROOT_USER: this.accessKey,
+      MINIO_ROOT_PASSWORD: this.secretKey,
+      ...this.extraEnv,
+    };
+  }
+
+  getConnectionInfo(): MinioConnectionInfo {
+    this.validateStarted();
+    const host = this.getHost();
+    const port = this.getMappedPort(API_PORT);
+    const consolePort = this.getMappedPort(CONSOLE_PORT);
+
+    return {
+      host,
+      port,
+      consolePort,
+      accessKey: this.accessKey,
+      secretKey: this.secretKey,
+      url: `http://${host}:${port}`,
+      consoleUrl: `http://${host}:${consolePort}`,
+    };
+  }
+
+  getConnectionUrl(): string {
+    return this.getConnectionInfo().url;
+  }
+}
@@ -0,0 +1,69 @@
+import { Wait, type WaitStrategy } from "testcontainers";
+import { type PresetOptions, PresetService } from "./preset";
+
+export interface MongoDbOptions extends PresetOptions {
+  database?: string;
+  username?: string;
+  password?: string;
+}
+
+export interface MongoDbConnectionInfo {
+  [key: string]: unknown;
+  host: string;
+  port: number;
+  database: string;
+  username: string;
+  password: string;
+  url: string;
+}
+
+const MONGODB_PORT = 27017;
+
+/**
+ * MongoDB preset
+ */
+export class MongoDbService extends PresetService<MongoDbConnectionInfo> {
+  private readonly database: string;
+  private readonly username: string;
+  private readonly password: string;
+
+  constructor(name = "mongodb", options: MongoDbOptions = {}) {
+    super(name, options.image ?? "mongo:7", [MONGODB_PORT], options.env);
+    this.database = options.database ?? "test";
+    this.username = options.username ?? "test";
+    this.password = options.password ?? "test";
+  }
+
+  getWaitStrategy(): WaitStrategy {
+    // Creating the root user runs a temporary server first, so the message appears twice
+    return Wait.forLogMessage(/Waiting for connections/, 2);
+  }
+
+  getEnvironmentVariables(): Record<string, string> {
+    return {
+      MONGO_INITDB_ROOT_USERNAME: this.username,
+      MONGO_INITDB_ROOT_PASSWORD: this.password,
+      MONGO_INITDB_DATABASE: this.database,
+      ...this.extraEnv,
+    };
+  }
+
+  getConnectionInfo(): MongoDbConnectionInfo {
+    this.validateStarted();
+    const host = this.getHost();
+    const port = this.getMappedPort(MONGODB_PORT);
+
+    return {
+      host,
+      port,
+      database: this.database,
+      username: this.username,
+      password: this.password,
+      url: `mongodb://${encodeURIComponent(this.username)}:${encodeURIComponent(this.password)}@${host}:${port}/${this.database}?authSource=admin`,
+    };
+  }
+
+  getConnectionUrl(): string {
+    return this.getConnectionInfo().url;
+  }
+}
@@ -0,0 +1,75 @@
+import { Wait, type WaitStrategy } from "testcontainers";
+import { type PresetOptions, PresetService } from "./preset";
+
+export interface MySqlOptions extends PresetOptions {
+  database?: string;
+  username?: string;
+  password?: string;
+  rootPassword?: string;
+}
+
+export interface MySqlConnectionInfo {
+  [key: string]: unknown;
+  host: string;
+  port: number;
+  database: string;
+  username: string;
+  password: string;
+  rootPassword: string;
+  url: string;
+}
+
+const MYSQL_PORT = 3306;
+
+/**
+ * MySQL preset
+ */
+export class MySqlService extends PresetService<MySqlConnectionInfo> {
+  private readonly database: string;
+  private readonly username: string;
+  private readonly password: string;
+  private readonly rootPassword: string;
+
+  constructor(name = "mysql", options: MySqlOptions = {}) {
+    super(name, options.image ?? "mysql:8.4", [MYSQL_PORT], options.env);
+    this.database = options.database ?? "test";
+    this.username = options.username ?? "test";
+    this.password = options.password ?? "test";
+    this.rootPassword = options.rootPassword ?? "test";
+  }
+
+  getWaitStrategy(): WaitStrategy {
+    // The temporary init server listens on port 0, only the real server reports 3306
+    return Wait.forLogMessage(/ready for connections.*port: 3306/);
+  }
+
+  getEnvironmentVariables(): Record<string, string> {
+    return {
+      MYSQL_DATABASE: this.database,
+      MYSQL_USER: this.username,
+      MYSQL_PASSWORD: this.password,
+      MYSQL_ROOT_PASSWORD: this.rootPassword,
+      ...this.extraEnv,
+    };
+  }
+
+  getConnectionInfo(): MySqlConnectionInfo {
+    this.validateStarted();
+    const host = this.getHost();
+    const port = this.getMappedPort(MYSQL_PORT);
+
+    return {
+      host,
+      port,
+      database: this.database,
+      username: this.username,
+      password: this.password,
+      rootPassword: this.rootPassword,
+      url: `mysql://${encodeURIComponent(this.username)}:${encodeURIComponent(this.password)}@${host}:${port}/${this.database}`,
+    };
+  }
+
+  getConnectionUrl(): string {
+    return this.getConnectionInfo().url;
+  }
+}
@@ -0,0 +1,106 @@
+import { Wait, type WaitStrategy } from "testcontainers";
+import { type PresetOptions, PresetService } from "./preset";
+
+export interface PostgresOptions extends PresetOptions {
+  database?: string;
+  username?: string;
+  password?: string;
+}
+
+export interface PostgresConnectionInfo {
+  [key: string]: unknown;
+  host: string;
+  port: number;
+  database: string;
+  username: string;
+  password: string;
+  url: string;
+}
+
+const POSTGRES_PORT = 5432;
+
+// One TRUNCATE for every user table, so foreign keys between them don't get in the way
+const TRUNCATE_ALL = `DO $$
+DECLARE tables text;
+BEGIN
+  SELECT string_agg(format('%I.%I', schemaname, tablename), ', ') INTO tables
+  FROM pg_tables WHERE schemaname NOT IN ('pg_catalog', 'information_schema');
+  IF tables IS NOT NULL THEN
+    EXECUTE 'TRUNCATE TABLE ' || tables || ' RESTART IDENTITY CASCADE';
+  END IF;
+END $$;`;
+
+/**
+ * PostgreSQL preset
+ *
+ * @example
+ * ```typescript
+ * const postgres = new PostgresService();
+ * await postgres.start();
+ * const client = new Client(postgres.getConnectionUrl());
+ * ```
+ */
+export class PostgresService extends PresetService<PostgresConnectionInfo> {
+  private readonly database: string;
+  private readonly username: string;
+  private readonly password: string;
+
+  constructor(name = "postgres", options: PostgresOptions = {}) {
+    super(name, options.image ?? "postgres:16-alpine", [POSTGRES_PORT], options.env);
+    this.database = options.database ?? "test";
+    this.username = options.username ?? "test";
+    this.password = options.password ?? "test";
+  }
+
+  /**
+   * Empty every table and restart identity sequences; the schema is kept
+   */
+  protected getResetCommands(): string[][] {
+    return [
+      [
+        "psql",
+        "-U",
+        this.username,
+        "-d",
+        this.database,
+        "-v",
+        "ON_ERROR_STOP=1",
+        "-c",
+        TRUNCATE_ALL,
+      ],
+    ];
+  }
+
+  getWaitStrategy(): WaitStrategy {
+    // The init scripts restart the server once, so the message appears twice
+    return Wait.forLogMessage(/database system is ready to accept connections/, 2);
+  }
+
+  getEnvironmentVariables(): Record<string, string> {
+    return {
+      POSTGRES_DB: this.database,
+      POSTGRES_USER: this.username,
+      POSTGRES_PASSWORD: this.password,
+      ...this.extraEnv,
+    };
+  }
+
+  getConnectionInfo(): PostgresConnectionInfo {
+    this.validateStarted();
+    const host = this.getHost();
+    const port = this.getMappedPort(POSTGRES_PORT);
+
+    return {
+      host,
+      port,
+      database: this.database,
+      username: this.username,
+      password: this.password,
+      url: `postgresql://${encodeURIComponent(this.username)}:${encodeURIComponent(this.password)}@${host}:${port}/${this.database}`,
+    };
+  }
+
+  getConnectionUrl(): string {
+    return this.getConnectionInfo().url;
+  }
+}
@@ -0,0 +1,47 @@
+import type { WaitStrategy } from "testcontainers";
+import { BaseContainerService } from "~/core/base";
+import type { BaseRecord, ServiceConfig } from "~/types";
+
+/**
+ * Options shared by every preset
+ */
+export interface PresetOptions {
+  /**
+   * Image to run standalone (compose uses the image from the compose file)
+   */
+  image?: string;
+  /**
+   * Extra environment variables, merged over the preset defaults
+   */
+  env?: Record<string, string>;
+}
+
+/**
+ * Base class for the official service presets
+ * Works standalone through `start()` and inside `ComposeEnvironment.withService()`
+ */
+export abstract class PresetService<T extends BaseRecord> extends BaseContainerService<
+  T,
+  ServiceConfig
+> {
+  constructor(
+    name: string,
+    image: string,
+    containerPorts: number[],
+    protected readonly extraEnv: Record<string, string> = {},
+  ) {
+    super(name, { container: { image, exposedPorts: containerPorts } });
+  }
+
+  abstract getWaitStrategy(): WaitStrategy;
+  abstract getEnvironmentVariables(): Record<string, string>;
+  abstract getConnectionUrl(): string;
+
+  protected getHost(): string {
+    return this.getContainer().getHost();
+  }
+
+  protected getMappedPort(port: number): number {
+    return this.getContainer().getMappedPort(port);
+  }
+}
@@ -0,0 +1,79 @@
+import { Wait, type WaitStrategy } from "testcontainers";
+import { type PresetOptions, PresetService } from "./preset";
+
+export interface RabbitMqOptions extends PresetOptions {
+  username?: string;
+  password?: string;
+  vhost?: string;
+}
+
+export interface RabbitMqConnectionInfo {
+  [key: string]: unknown;
+  host: string;
+  port: number;
+  managementPort: number;
+  username: string;
+  password: string;
+  vhost: string;
+  url: string;
+  managementUrl: string;
+}
+
+const AMQP_PORT = 5672;
+const MANAGEMENT_PORT = 15672;
+
+/**
+ * RabbitMQ preset (with the management plugin)
+ */
+export class RabbitMqService extends PresetService<RabbitMqConnectionInfo> {
+  private readonly username: string;
+  private readonly password: string;
+  private readonly vhost: string;
+
+  constructor(name = "rabbitmq", options: RabbitMqOptions = {}) {
+    super(
+      name,
+      options.image ?? "rabbitmq:3.13-management-alpine",
+      [AMQP_PORT, MANAGEMENT_PORT],
+      options.env,
+    );
+    this.username = options.username ?? "test";
+    this.password = options.password ?? "test";
+    this.vhost = options.vhost ?? "/";
+  }
+
+  getWaitStrategy(): WaitStrategy {
+    return Wait.forLogMessage("Server startup complete");
+  }
+
+  getEnvironmentVariables(): Record<string, string> {
+    return {
+      RABBITMQ_DEFAULT_USER: this.username,
+      RABBITMQ_DEFAULT_PASS: this.password,
+      RABBITMQ_DEFAULT_VHOST: this.vhost,
+      ...this.extraEnv,
+    };
+  }
+
+  getConnectionInfo(): RabbitMqConnectionInfo {
+    this.validateStarted();
+    const host = this.getHost();
+    const port = this.getMappedPort(AMQP_PORT);
+    const managementPort = this.getMappedPort(MANAGEMENT_PORT);
+
+    return {
+      host,
+      port,
+      managementPort,
+      username: this.username,
+      password: this.password,
+      vhost: this.vhost,
+      url: `amqp://${encodeURIComponent(this.username)}:${encodeURIComponent(this.password)}@${host}:${port}/${encodeURIComponent(this.vhost)}`,
+      managementUrl: `http://${host}:${managementPort}`,
+    };
+  }
+
+  getConnectionUrl(): string {
+    return this.getConnectionInfo().url;
+  }
+}
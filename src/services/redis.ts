@@ -0,0 +1,72 @@
+import { Wait, type WaitStrategy } from "testcontainers";
+import type { StandaloneContainer } from "~/core/container";
+import { type PresetOptions, PresetService } from "./preset";
+
+export interface RedisOptions extends PresetOptions {
+  password?: string;
+}
+
+export interface RedisConnectionInfo {
+  [key: string]: unknown;
+  host: string;
+  port: number;
+  password?: string;
+  url: string;
+}
+
+const REDIS_PORT = 6379;
+
+/**
+ * Redis preset
+ */
+export class RedisService extends PresetService<RedisConnectionInfo> {
+  private readonly password?: string;
+
+  constructor(name = "redis", options: RedisOptions = {}) {
+    super(name, options.image ?? "redis:7-alpine", [REDIS_PORT], options.env);
+    this.password = options.password;
+  }
+
+  protected configure(container: StandaloneContainer): StandaloneContainer {
+    return this.password
+      ? container.withCommand("redis-server", "--requirepass", this.password)
+      : container;
+  }
+
+  /**
+   * Drop every key in every database
+   */
+  protected getResetCommands(): string[][] {
+    const auth = this.password ? ["-a", this.password, "--no-auth-warning"] : [];
+    return [["redis-cli", ...auth, "FLUSHALL"]];
+  }
+
+  getWaitStrategy(): WaitStrategy {
+    return Wait.forLogMessage("Ready to accept connections");
+  }
+
+  getEnvironmentVariables(): Record<string, string> {
+    return {
+      ...(this.password ? { REDIS_PASSWORD: this.password } : {}),
+      ...this.extraEnv,
+    };
+  }
+
+  getConnectionInfo(): RedisConnectionInfo {
+    this.validateStarted();
+    const host = this.getHost();
+    const port = this.getMappedPort(REDIS_PORT);
+    const auth = this.password ? `:${encodeURIComponent(this.password)}@` : "";
+
+    return {
+      host,
+      port,
+      password: this.password,
+      url: `redis://${auth}${host}:${port}`,
+    };
+  }
+
+  getConnectionUrl(): string {
+    return this.getConnectionInfo().url;
+  }
+}
@@ -17,15 +17,58 @@ export type PortMapping =
 			host: number;
 	  };
 
+/**
+ * Image pull policy
+ * - `always` / `alwaysPull`: pull on every start
+ * - `ifNotPresent`: pull only when the image is missing from the local cache
+ * - `never`: only use the local cache, fail when the image is missing
+ */
+export type PullPolicyName = "always" | "alwaysPull" | "ifNotPresent" | "never";
+
 export interface FileConfig {
 	source: string;
 	target: string;
 	mode?: number;
 }
 
+/**
+ * Retry policy for starting containers and compose environments
+ */
+export interface RetryOptions {
+	/**
+	 * Total attempts including the first (default: 3)
+	 */
+	attempts?: number;
+	/**
+	 * Delay before the second attempt in ms, doubled for each one after (default: 1000),
+	 * or a function returning the delay before a given attempt
+	 */
+	backoff?: number | ((attempt: number) => number);
+	/**
+	 * Decide whether a failure is worth retrying (default: transient errors only)
+	 */
+	retryOn?: (error: Error) => boolean;
+}
+
+/**
+ * Docker preflight check run before the first start in a process
+ */
+export interface CheckDockerOptions {
+	/**
+	 * How long to wait for the daemon to answer in ms (default: 5000)
+	 */
+	timeout?: number;
+	/**
+	 * Fail when the Docker root directory has less free space than this, in bytes
+	 * (default: 1 GiB, `0` disables the check)
+	 */
+	minFreeDisk?: number;
+}
+
 // Core container configuration
 export interface ContainerConfig {
 	// Basic settings
+	image?: string; // Used when a container is built from config alone
 	command?: string[];
 	entrypoint?: string[];
 	env?: Record<string, string>;
@@ -47,7 +90,7 @@ export interface ContainerConfig {
 			hard: number;
 		}
 	>;
-	sharedMemorySize?: number;
+	sharedMemorySize?: number; // Bytes for /dev/shm
 	capabilities?: {
 		add?: string[];
 		drop?: string[];
@@ -57,6 +100,11 @@ export interface ContainerConfig {
 	tmpFs?: Record<string, string>;
 	copyFiles?: FileConfig[];
 	copyDirectories?: FileConfig[];
+	copyContent?: Array<{
+		content: string;
+		target: string;
+		mode?: number;
+	}>;
 
 	// Network settings
 	network?: string; // Name of the network to join
@@ -68,30 +116,47 @@ export interface ContainerConfig {
 		ipAddress: string;
 	}>;
 	ipcMode?: string;
+	exposedHostPorts?: number[]; // Host ports reachable as host.testcontainers.internal
 
 	// Lifecycle
 	waitStrategy?: WaitStrategy;
-	// pullPolicy?: "always" | "ifNotPresent" | "never"; // Need a custom pull policy for 'ifNotPresent' & 'never'
-	pullPolicy?: "alwaysPull" | "never";
+	pullPolicy?: PullPolicyName;
 	reuse?: boolean;
 	defaultLogDriver?: boolean;
+	logBufferSize?: number; // Recent output lines kept for error reports
+	retry?: RetryOptions;
+	preflight?: boolean | CheckDockerOptions; // Check Docker once per process before starting
+}
+
+// Per-service readiness settings for compose environments
+export interface ComposeServiceWait {
+	waitStrategy?: WaitStrategy;
+	startupTimeout?: number; // ms
 }
 
 // Core compose configuration
 export interface ComposeConfig {
 	env?: Record<string, string>;
 	envFile?: string;
-	// pullPolicy?: "always" | "ifNotPresent" | "never";
-	pullPolicy?: "alwaysPull" | "never";
+	pullPolicy?: PullPolicyName;
 	build?: boolean;
 	profiles?: string[];
 	projectName?: string;
 	noRecreate?: boolean;
-	waitStrategy?: WaitStrategy;
-	down?: {
-		timeout?: number;
-		removeVolumes?: boolean;
-	};
+	waitStrategy?: WaitStrategy; // Default for services without their own
+	serviceWaits?: Record<string, ComposeServiceWait>;
+	down?: ComposeDownOptions;
+	exposedHostPorts?: number[]; // Host ports reachable as host.testcontainers.internal
+	retry?: RetryOptions;
+	preflight?: boolean | CheckDockerOptions; // Check Docker once per process before starting
+}
+
+// Compose teardown options
+export interface ComposeDownOptions {
+	timeout?: number; // ms
+	removeVolumes?: boolean;
+	removeOrphans?: boolean;
+	removeImages?: "all" | "local";
 }
 
 // Service configuration that can be used for both standalone and compose services
@@ -118,4 +183,8 @@ export interface ContainerService<T extends BaseRecord> extends ContainerLifecyc
 	getWaitStrategy?(): WaitStrategy;
 	getEnvironmentVariables?(): Record<string, string>;
 	initializeFromContainer?(container: StartedTestContainer): Promise<void> | void;
+	/**
+	 * Return the service to a clean state between tests without restarting it
+	 */
+	reset?(): Promise<void>;
 }
@@ -1,7 +1,13 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  // Runner adapters are subpaths, so the root never loads a test runner
+  entry: {
+    index: 'src/index.ts',
+    'fixtures/node': 'src/fixtures/node.ts',
+    'fixtures/vitest': 'src/fixtures/vitest.ts',
+    'fixtures/jest': 'src/fixtures/jest.ts',
+  },
   format: ['cjs', 'esm'],
   dts: true,
   sourcemap: true,